@@ -0,0 +1,266 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { relative, resolve } from 'node:path'
+
+import {
+  containsWildcard,
+  globToRegExp,
+  stripLeadingCurrentDirectory,
+} from '../glob/globPattern.js'
+import type {
+  CachedStepResult,
+  PipelineStep,
+  StepResult,
+  StepResultCache,
+} from '../internal/core/index.js'
+import { normalizeWatchPath } from '../watch/watchIgnoreMatcher.js'
+
+/** Bumped whenever the stored entry shape or key composition changes. */
+const CACHE_FORMAT_VERSION = 3
+
+/** Directory names never traversed while collecting input and output files. */
+const SKIPPED_DIRECTORIES = new Set<string>(['.git', 'node_modules', '.ci-runner'])
+
+/**
+ * Options for the file-backed step cache.
+ */
+export interface FileStepCacheOptions {
+  /** Pipeline working directory that holds the `.ci-runner/cache` directory. */
+  readonly cwd: string
+  /** Config-level environment included in every cache key. */
+  readonly env?: Readonly<Record<string, string>>
+}
+
+interface StoredCacheEntry {
+  readonly version: number
+  readonly key: string
+  readonly outputsHash: string
+  readonly result: CachedStepResult
+}
+
+/**
+ * Content-hash step cache stored under `.ci-runner/cache`.
+ *
+ * Only steps with `inputs` are cacheable. The key covers the input file contents, the command,
+ * the shell mode, the working directory, the config and step environment, and the exit code
+ * rules, output assertions and metric thresholds that decided whether the cached run passed. One
+ * entry is kept per step id, so a changed key replaces the previous entry. When `outputs` are
+ * configured, a hit also requires the output files to be unchanged since the cached run.
+ */
+export class FileStepCache implements StepResultCache {
+  private readonly options: FileStepCacheOptions
+  private readonly directory: string
+
+  /**
+   * Creates a file-backed step cache.
+   *
+   * @param options Cache options.
+   */
+  public constructor(options: FileStepCacheOptions) {
+    this.options = options
+    this.directory = resolve(options.cwd, '.ci-runner', 'cache')
+  }
+
+  /**
+   * Computes the cache key from step definition and input file contents.
+   *
+   * @param step Step definition.
+   * @returns Cache key, or null when the step has no inputs.
+   */
+  public async getKey(step: PipelineStep): Promise<string | null> {
+    if (!step.inputs || step.inputs.length === 0) {
+      return null
+    }
+
+    const stepCwd = this.resolveStepCwd(step)
+    const hash = createHash('sha256')
+    hash.update(
+      JSON.stringify({
+        version: CACHE_FORMAT_VERSION,
+        command: step.command,
+        pipefail: step.pipefail ?? false,
+        cwd: normalizeWatchPath(relative(this.options.cwd, stepCwd)),
+        env: sortRecord({ ...this.options.env, ...step.env }),
+        exitCodes: step.exitCodes ?? null,
+        assertOutput: step.assertOutput ?? null,
+        thresholds: step.thresholds ?? null,
+      })
+    )
+    hash.update(await hashFiles(stepCwd, step.inputs))
+
+    return hash.digest('hex')
+  }
+
+  /**
+   * Reads the stored result when key and outputs still match.
+   *
+   * @param step Step definition.
+   * @param key Cache key computed before execution.
+   * @returns Stored result, or null on a cache miss.
+   */
+  public async read(step: PipelineStep, key: string): Promise<CachedStepResult | null> {
+    let entry: StoredCacheEntry
+    try {
+      entry = JSON.parse(await readFile(this.getEntryPath(step), 'utf8')) as StoredCacheEntry
+    } catch {
+      return null
+    }
+
+    if (entry.version !== CACHE_FORMAT_VERSION || entry.key !== key) {
+      return null
+    }
+
+    const outputsHash = await hashFiles(this.resolveStepCwd(step), step.outputs ?? [])
+    if (entry.outputsHash !== outputsHash) {
+      return null
+    }
+
+    return entry.result
+  }
+
+  /**
+   * Stores a passing step result together with its output file hash.
+   *
+   * Write failures are ignored because the cache must never fail a pipeline.
+   *
+   * @param step Step definition.
+   * @param key Cache key computed before execution.
+   * @param result Passing step result.
+   */
+  public async write(step: PipelineStep, key: string, result: StepResult): Promise<void> {
+    const entry: StoredCacheEntry = {
+      version: CACHE_FORMAT_VERSION,
+      key,
+      outputsHash: await hashFiles(this.resolveStepCwd(step), step.outputs ?? []),
+      result: {
+        output: result.output,
+        metrics: result.metrics,
+        durationMs: result.durationMs,
+      },
+    }
+
+    try {
+      await mkdir(this.directory, { recursive: true })
+      await writeFile(this.getEntryPath(step), JSON.stringify(entry), 'utf8')
+    } catch {
+      // A read-only or full disk only disables caching for this step.
+    }
+  }
+
+  private resolveStepCwd(step: PipelineStep): string {
+    return step.cwd ? resolve(this.options.cwd, step.cwd) : this.options.cwd
+  }
+
+  private getEntryPath(step: PipelineStep): string {
+    return resolve(this.directory, `${encodeURIComponent(step.id)}.json`)
+  }
+}
+
+/**
+ * Hashes relative paths and contents of all files matched by the given patterns.
+ *
+ * @param baseDirectory Directory the patterns are relative to.
+ * @param patterns Glob patterns; entries starting with `!` exclude matches.
+ * @returns Hex digest, stable for unchanged files.
+ */
+const hashFiles = async (baseDirectory: string, patterns: readonly string[]): Promise<string> => {
+  const hash = createHash('sha256')
+
+  for (const filePath of await collectFiles(baseDirectory, patterns)) {
+    hash.update(filePath)
+    hash.update('\u0000')
+    try {
+      hash.update(await readFile(resolve(baseDirectory, filePath)))
+    } catch {
+      hash.update('<unreadable>')
+    }
+    hash.update('\u0000')
+  }
+
+  return hash.digest('hex')
+}
+
+const collectFiles = async (
+  baseDirectory: string,
+  patterns: readonly string[]
+): Promise<readonly string[]> => {
+  const normalizedPatterns = patterns.map((pattern) =>
+    normalizeWatchPath(stripLeadingCurrentDirectory(pattern.trim()))
+  )
+  const excludeMatchers = normalizedPatterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(stripLeadingCurrentDirectory(pattern.slice(1))))
+  const files = new Set<string>()
+
+  for (const pattern of normalizedPatterns) {
+    if (pattern.length === 0 || pattern.startsWith('!')) {
+      continue
+    }
+
+    if (!containsWildcard(pattern)) {
+      for (const filePath of await listFiles(baseDirectory, pattern)) {
+        files.add(filePath)
+      }
+      continue
+    }
+
+    const matcher = globToRegExp(pattern)
+    for (const filePath of await listFiles(baseDirectory, getStaticPrefix(pattern))) {
+      if (matcher.test(filePath)) {
+        files.add(filePath)
+      }
+    }
+  }
+
+  return [...files]
+    .filter((filePath) => !excludeMatchers.some((matcher) => matcher.test(filePath)))
+    .sort()
+}
+
+/**
+ * Lists files below a relative path, or the path itself when it is a file.
+ */
+const listFiles = async (baseDirectory: string, relativePath: string): Promise<string[]> => {
+  const absolutePath = resolve(baseDirectory, relativePath)
+
+  try {
+    const entry = await stat(absolutePath)
+    if (entry.isFile()) {
+      return [normalizeWatchPath(relative(baseDirectory, absolutePath))]
+    }
+  } catch {
+    return []
+  }
+
+  const files: string[] = []
+  const entries = await readdir(absolutePath, { withFileTypes: true })
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        const childPath = normalizeWatchPath(
+          relative(baseDirectory, resolve(absolutePath, entry.name))
+        )
+        files.push(...(await listFiles(baseDirectory, childPath)))
+      }
+      continue
+    }
+
+    if (entry.isFile()) {
+      files.push(normalizeWatchPath(relative(baseDirectory, resolve(absolutePath, entry.name))))
+    }
+  }
+
+  return files
+}
+
+const getStaticPrefix = (pattern: string): string => {
+  const segments = pattern.split('/')
+  const wildcardIndex = segments.findIndex(containsWildcard)
+  return segments.slice(0, wildcardIndex).join('/') || '.'
+}
+
+const sortRecord = (record: Readonly<Record<string, string>>): Record<string, string> => {
+  return Object.fromEntries(
+    Object.entries(record).sort(([leftKey], [rightKey]) => leftKey.localeCompare(rightKey))
+  )
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { getCliHelpText, parseCliOptions } from './cliOptions.js'
+import { formatCiRunnerConfigSchema } from './config/configSchema.js'
 import { runCliPipeline } from './runPipeline.js'
 
 const run = async (): Promise<void> => {
@@ -12,6 +13,12 @@ const run = async (): Promise<void> => {
     return
   }
 
+  if (options.printSchema) {
+    process.stdout.write(formatCiRunnerConfigSchema())
+    process.exitCode = 0
+    return
+  }
+
   const exitCode = await runCliPipeline(options)
   process.exitCode = exitCode
 }
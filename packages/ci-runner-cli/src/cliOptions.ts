@@ -14,16 +14,32 @@ export interface CliOptions {
   readonly target?: string
   /** Prints configured targets and exits when true. */
   readonly listTargets: boolean
+  /** Prints the config JSON Schema and exits when true. */
+  readonly printSchema: boolean
   /** Selected output format. */
   readonly format: CliOutputFormat
   /** Indicates whether output format was explicitly set via CLI flag. */
   readonly formatProvided?: true
   /** Emits full output for successful steps when true. */
   readonly verbose: boolean
+  /** Prints step output live in pretty format when true. */
+  readonly stream: boolean
   /** Enables rerun mode on file changes when true. */
   readonly watch: boolean
   /** Stops on first hard failure when true. */
   readonly failFast: boolean
+  /** Fails the run on `warning` steps when true. */
+  readonly strict: boolean
+  /** Treats config warnings, such as unknown keys, as errors when true. */
+  readonly strictConfig: boolean
+  /** Optional maximum number of steps executed at the same time. */
+  readonly concurrency?: number
+  /** Optional total run budget in milliseconds, overriding the config `timeoutMs`. */
+  readonly maxDurationMs?: number
+  /** Reads and writes the step result cache when true. */
+  readonly cache: boolean
+  /** Writes complete step output to per-run log files when true. */
+  readonly logs: boolean
   /** Prints usage and exits when true. */
   readonly help: boolean
 }
@@ -40,11 +56,19 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
   let configPath: string | undefined
   let target: string | undefined
   let listTargets = false
+  let printSchema = false
   let format: CliOutputFormat = 'pretty'
   let formatProvided = false
   let verbose = false
+  let stream = false
   let watch = false
   let failFast = false
+  let strict = false
+  let strictConfig = false
+  let concurrency: number | undefined
+  let maxDurationMs: number | undefined
+  let cache = true
+  let logs = true
   let help = false
   let cwd = baseCwd
 
@@ -54,6 +78,11 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
       continue
     }
 
+    if (argument === 'schema' && index === 0) {
+      printSchema = true
+      continue
+    }
+
     if (argument === '--help' || argument === '-h') {
       help = true
       continue
@@ -64,6 +93,11 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
       continue
     }
 
+    if (argument === '--stream') {
+      stream = true
+      continue
+    }
+
     if (argument === '--watch') {
       watch = true
       continue
@@ -74,6 +108,26 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
       continue
     }
 
+    if (argument === '--strict') {
+      strict = true
+      continue
+    }
+
+    if (argument === '--strict-config') {
+      strictConfig = true
+      continue
+    }
+
+    if (argument === '--no-cache') {
+      cache = false
+      continue
+    }
+
+    if (argument === '--no-logs') {
+      logs = false
+      continue
+    }
+
     if (argument === '--list-targets') {
       listTargets = true
       continue
@@ -103,6 +157,36 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
       continue
     }
 
+    if (argument === '--concurrency') {
+      const nextValue = argv[index + 1]
+      if (!nextValue) {
+        throw new Error('--concurrency requires a value')
+      }
+      concurrency = parseConcurrency(nextValue)
+      index += 1
+      continue
+    }
+
+    if (argument.startsWith('--concurrency=')) {
+      concurrency = parseConcurrency(argument.slice('--concurrency='.length))
+      continue
+    }
+
+    if (argument === '--max-duration') {
+      const nextValue = argv[index + 1]
+      if (!nextValue) {
+        throw new Error('--max-duration requires a value')
+      }
+      maxDurationMs = parseMaxDuration(nextValue)
+      index += 1
+      continue
+    }
+
+    if (argument.startsWith('--max-duration=')) {
+      maxDurationMs = parseMaxDuration(argument.slice('--max-duration='.length))
+      continue
+    }
+
     if (argument === '--config') {
       const nextValue = argv[index + 1]
       if (!nextValue) {
@@ -156,15 +240,50 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
     configPath,
     target,
     listTargets,
+    printSchema,
     format,
     ...(formatProvided ? { formatProvided: true as const } : {}),
     verbose,
+    stream,
     watch,
     failFast,
+    strict,
+    strictConfig,
+    concurrency,
+    maxDurationMs,
+    cache,
+    logs,
     help,
   }
 }
 
+const parseConcurrency = (value: string): number => {
+  const concurrency = Number(value)
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer')
+  }
+
+  return concurrency
+}
+
+const DURATION_UNIT_MS: Readonly<Record<string, number>> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+}
+
+const parseMaxDuration = (value: string): number => {
+  const match = /^(\d+)(ms|s|m|h)?$/u.exec(value)
+  const amount = Number(match?.[1])
+  const unitMs = DURATION_UNIT_MS[match?.[2] ?? 'ms']
+  if (!match || !unitMs || amount < 1) {
+    throw new Error('--max-duration must be a positive duration such as 90000, 90s, or 10m')
+  }
+
+  return amount * unitMs
+}
+
 /**
  * Returns help text for the ci-runner CLI.
  *
@@ -173,15 +292,26 @@ export const parseCliOptions = (argv: readonly string[], baseCwd: string): CliOp
 export const getCliHelpText = (): string => {
   return [
     'Usage: ci-runner [options]',
+    '       ci-runner schema',
+    '',
+    'Commands:',
+    '  schema              Print the JSON Schema for ci.config.json and exit',
     '',
     'Options:',
-    '  --config <path>     Config file path (default: ci.config.ts or ci.config.json)',
+    '  --config <path>     Config file path (default: ci.config.{ts,json,yaml,yml})',
     '  --target <id>       Run only the selected target id from config',
     '  --list-targets      Print configured targets and exit',
     '  --format <type>     Output format: pretty | json (default: pretty)',
     '  --verbose           Show stdout/stderr for successful steps',
+    '  --stream            Print step output live, prefixed with the step name',
     '  --watch             Re-run on file changes',
     '  --fail-fast         Stop after first non-optional failure',
+    '  --strict            Fail the run when a step ends with a warning exit code',
+    '  --strict-config     Fail on config warnings such as unknown keys',
+    '  --concurrency <n>   Run up to n independent steps at the same time (default: 1)',
+    '  --max-duration <t>  Stop the run after t (ms, or with s, m, h suffix) and fail it',
+    '  --no-cache          Run all steps without reading or writing the step cache',
+    '  --no-logs           Do not write step output to .ci-runner/runs',
     '  --cwd <path>        Base working directory',
     '  -h, --help          Show this help',
   ].join('\n')
@@ -0,0 +1,206 @@
+const nonEmptyStringSchema = { type: 'string', minLength: 1 } as const
+
+const nonEmptyStringArraySchema = { type: 'array', items: nonEmptyStringSchema } as const
+
+const integerArraySchema = { type: 'array', items: { type: 'integer' } } as const
+
+const regExpSchema = { type: 'string', format: 'regex' } as const
+
+const stringRecordSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+} as const
+
+const signalSchema = {
+  type: 'string',
+  pattern: '^SIG[A-Z0-9]+$',
+  description: 'Signal name such as "SIGTERM" or "SIGINT".',
+} as const
+
+const retrySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['maxAttempts'],
+  properties: {
+    maxAttempts: { type: 'number', description: 'Total attempts including the first run.' },
+    delayMs: { type: 'number', description: 'Delay before the first retry.' },
+    backoffMultiplier: { type: 'number', minimum: 1 },
+    maxDelayMs: { type: 'number' },
+    jitter: { type: 'number', minimum: 0, maximum: 1 },
+    retryOnTimeout: { type: 'boolean' },
+    retryOnSignal: { type: 'boolean' },
+    retryOnSpawnFailure: { type: 'boolean' },
+    retryOnExitCodes: integerArraySchema,
+    retryOnOutputPattern: regExpSchema,
+    failOnFlaky: { type: 'boolean' },
+  },
+} as const
+
+const exitCodesSchema = {
+  type: 'object',
+  additionalProperties: false,
+  description: 'Exit codes reported as passed, warning or skipped. A code may appear only once.',
+  properties: {
+    success: integerArraySchema,
+    warning: integerArraySchema,
+    skip: integerArraySchema,
+  },
+} as const
+
+const outputAssertionsSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    mustMatch: { type: 'array', items: regExpSchema },
+    mustNotMatch: { type: 'array', items: regExpSchema },
+  },
+} as const
+
+const metricThresholdSchema = {
+  type: 'object',
+  additionalProperties: false,
+  anyOf: [{ required: ['min'] }, { required: ['max'] }],
+  properties: {
+    min: { type: 'number' },
+    max: { type: 'number' },
+  },
+} as const
+
+const conditionSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    env: stringRecordSchema,
+  },
+} as const
+
+const stepSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'name', 'command'],
+  properties: {
+    id: { ...nonEmptyStringSchema, description: 'Unique step id.' },
+    name: nonEmptyStringSchema,
+    command: nonEmptyStringSchema,
+    enabled: { type: 'boolean' },
+    cwd: { type: 'string' },
+    env: stringRecordSchema,
+    optional: { type: 'boolean' },
+    timeoutMs: { type: 'number' },
+    idleTimeoutMs: { type: 'number', exclusiveMinimum: 0 },
+    killSignal: signalSchema,
+    killGracePeriodMs: { type: 'number', minimum: 0 },
+    captureOutput: { type: 'boolean' },
+    maxOutputBytes: { type: 'number' },
+    pipefail: { type: 'boolean' },
+    retry: { $ref: '#/definitions/retry' },
+    exitCodes: { $ref: '#/definitions/exitCodes' },
+    assertOutput: { $ref: '#/definitions/outputAssertions' },
+    thresholds: {
+      type: 'object',
+      description: 'Metric ranges keyed by metric name. Requires output.parseMetrics.',
+      additionalProperties: { $ref: '#/definitions/metricThreshold' },
+    },
+    when: { $ref: '#/definitions/condition' },
+    dependsOn: nonEmptyStringArraySchema,
+    inputs: nonEmptyStringArraySchema,
+    outputs: nonEmptyStringArraySchema,
+  },
+} as const
+
+const targetSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'name'],
+  properties: {
+    id: { ...nonEmptyStringSchema, description: 'Unique target id.' },
+    name: nonEmptyStringSchema,
+    description: { type: 'string' },
+    includeStepIds: nonEmptyStringArraySchema,
+    excludeStepIds: nonEmptyStringArraySchema,
+    failOnFlaky: { type: 'boolean' },
+  },
+} as const
+
+const outputSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    format: { enum: ['pretty', 'json'] },
+    verbose: { type: 'boolean' },
+    parseMetrics: { type: 'boolean' },
+    captureOutput: { type: 'boolean' },
+    maxOutputBytes: { type: 'number' },
+    truncateStrategy: { enum: ['head', 'tail', 'head-tail'] },
+    keepRuns: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Number of .ci-runner/runs log directories kept. 0 disables step log files.',
+    },
+  },
+} as const
+
+const watchSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    exclude: nonEmptyStringArraySchema,
+  },
+} as const
+
+/**
+ * JSON Schema for `ci.config.json`, mirroring the checks in `loadConfig.ts`.
+ *
+ * Cross-field rules, such as known `dependsOn` ids or unique step ids, are only enforced when the
+ * config loads.
+ */
+export const ciRunnerConfigSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'ci-runner config',
+  type: 'object',
+  additionalProperties: false,
+  required: ['steps'],
+  properties: {
+    $schema: { type: 'string' },
+    steps: { type: 'array', items: { $ref: '#/definitions/step' } },
+    targets: { type: 'array', items: { $ref: '#/definitions/target' } },
+    continueOnError: { type: 'boolean' },
+    concurrency: { type: 'integer', minimum: 1 },
+    timeoutMs: {
+      type: 'number',
+      exclusiveMinimum: 0,
+      description: 'Time budget for the whole run.',
+    },
+    env: stringRecordSchema,
+    killSignal: signalSchema,
+    killGracePeriodMs: { type: 'number', minimum: 0 },
+    cwd: { type: 'string' },
+    output: { $ref: '#/definitions/output' },
+    watch: { $ref: '#/definitions/watch' },
+  },
+  patternProperties: {
+    '^x-': {
+      description: 'Extension field ignored by ci-runner, for example to hold YAML anchors.',
+    },
+  },
+  definitions: {
+    step: stepSchema,
+    retry: retrySchema,
+    exitCodes: exitCodesSchema,
+    outputAssertions: outputAssertionsSchema,
+    metricThreshold: metricThresholdSchema,
+    condition: conditionSchema,
+    target: targetSchema,
+    output: outputSchema,
+    watch: watchSchema,
+  },
+} as const
+
+/**
+ * Serializes the config schema as it is printed by `ci-runner schema` and shipped in the package.
+ *
+ * @returns Pretty-printed schema JSON with a trailing newline.
+ */
+export const formatCiRunnerConfigSchema = (): string => {
+  return `${JSON.stringify(ciRunnerConfigSchema, null, 2)}\n`
+}
@@ -0,0 +1,55 @@
+import type { CiRunnerConfig, CiRunnerTarget, CliConfigStep } from './types.js'
+
+/**
+ * Step definition whose step references must name a step of the same config.
+ */
+export interface DefinedConfigStep<TStepId extends string> extends Omit<
+  CliConfigStep,
+  'id' | 'dependsOn'
+> {
+  /** Stable step id, inferred as a literal type. */
+  readonly id: TStepId
+  /** Step ids that must pass before this step starts. */
+  readonly dependsOn?: readonly NoInfer<TStepId>[]
+}
+
+/**
+ * Target definition whose step filters must name steps of the same config.
+ */
+export interface DefinedConfigTarget<TStepId extends string> extends Omit<
+  CiRunnerTarget,
+  'includeStepIds' | 'excludeStepIds'
+> {
+  /** Optional step id allow-list. */
+  readonly includeStepIds?: readonly NoInfer<TStepId>[]
+  /** Optional step id deny-list applied after include filtering. */
+  readonly excludeStepIds?: readonly NoInfer<TStepId>[]
+}
+
+/**
+ * Config accepted by {@link defineConfig}, with step references typed by the declared step ids.
+ */
+export interface DefinedCiRunnerConfig<TStepId extends string> extends Omit<
+  CiRunnerConfig,
+  'steps' | 'targets'
+> {
+  /** Ordered step list. */
+  readonly steps: readonly DefinedConfigStep<TStepId>[]
+  /** Optional named subsets that can be selected via CLI/UI. */
+  readonly targets?: readonly DefinedConfigTarget<TStepId>[]
+}
+
+/**
+ * Declares a ci-runner config with type-checked step references.
+ *
+ * Step ids are inferred as literal types, so unknown ids in `dependsOn`, `includeStepIds` or
+ * `excludeStepIds` fail at compile time instead of when the config loads.
+ *
+ * @param config Config to declare.
+ * @returns The same config object.
+ */
+export const defineConfig = <const TStepId extends string>(
+  config: DefinedCiRunnerConfig<TStepId>
+): DefinedCiRunnerConfig<TStepId> => {
+  return config
+}
@@ -1,36 +1,92 @@
-import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
-import { tmpdir } from 'node:os'
-import { dirname, resolve } from 'node:path'
-import { pathToFileURL } from 'node:url'
-
-import ts from 'typescript'
+import { readFile } from 'node:fs/promises'
+import { constants as osConstants } from 'node:os'
+import { resolve } from 'node:path'
 
+import { loadTypeScriptConfig } from './loadTypeScriptConfig.js'
+import { loadYamlConfig } from './loadYamlConfig.js'
 import type { CiRunnerConfig, CiRunnerTarget, CliConfigStep } from './types.js'
+import { validateCiRunnerConfig, type ConfigIssue } from './validateConfig.js'
+
+/**
+ * Options that control how strictly a config file is validated.
+ */
+export interface LoadCiRunnerConfigOptions {
+  /** Treat validation warnings, such as unknown keys, as errors. */
+  readonly strict?: boolean
+}
+
+/**
+ * Raw config value read from a config file.
+ */
+interface LoadedConfigSource {
+  readonly value: unknown
+  /** Returns a source position for a config path, when the file format provides one. */
+  readonly locate?: (path: string) => string | undefined
+}
+
+const CONFIG_FILE_NAMES = ['ci.config.ts', 'ci.config.json', 'ci.config.yaml', 'ci.config.yml']
 
 /**
  * Loads and validates a ci-runner config file.
  *
  * @param cwd Base working directory.
  * @param configPath Optional explicit config file path.
- * @returns Parsed config with resolved metadata.
- * @throws Error when config cannot be loaded or is invalid.
+ * @param options Validation options.
+ * @returns Parsed config with resolved metadata and validation warnings.
+ * @throws Error listing every validation problem when config cannot be loaded or is invalid.
  */
 export const loadCiRunnerConfig = async (
   cwd: string,
-  configPath?: string
-): Promise<{ config: CiRunnerConfig; configFilePath: string }> => {
+  configPath?: string,
+  options: LoadCiRunnerConfigOptions = {}
+): Promise<{
+  config: CiRunnerConfig
+  configFilePath: string
+  warnings: readonly ConfigIssue[]
+}> => {
   const resolvedConfigPath = await resolveConfigPath(cwd, configPath)
   if (!resolvedConfigPath) {
-    throw new Error('No config file found. Expected ci.config.ts or ci.config.json')
+    throw new Error(
+      'No config file found. Expected ci.config.ts, ci.config.json, ci.config.yaml or ci.config.yml'
+    )
+  }
+
+  const source = await loadConfigByExtension(resolvedConfigPath)
+  const withLocation = (path: string, message: string): string => {
+    const location = source.locate?.(path)
+    return location ? `${message} (${location})` : message
   }
 
-  const loadedConfig = await loadConfigByExtension(resolvedConfigPath)
-  const config = parseCiRunnerConfig(loadedConfig)
+  const parseIssues: ConfigIssue[] = []
+  const config = parseCiRunnerConfig(source.value, parseIssues)
+  const issues = [...parseIssues, ...validateCiRunnerConfig(source.value)].map((issue) => ({
+    ...issue,
+    message: withLocation(issue.path, issue.message),
+  }))
+  const problems = issues
+    .filter((issue) => issue.severity === 'error' || options.strict === true)
+    .map((issue) => issue.message)
+
+  if (problems.length > 0 || !config) {
+    throw new Error(formatConfigProblems(problems))
+  }
 
   return {
     config,
     configFilePath: resolvedConfigPath,
+    warnings: options.strict === true ? [] : issues.filter((issue) => issue.severity === 'warning'),
+  }
+}
+
+const formatConfigProblems = (problems: readonly string[]): string => {
+  if (problems.length === 1) {
+    return problems[0] ?? ''
   }
+
+  return [
+    `Config has ${problems.length} problems:`,
+    ...problems.map((problem) => `  - ${problem}`),
+  ].join('\n')
 }
 
 const resolveConfigPath = async (cwd: string, configPath?: string): Promise<string | null> => {
@@ -38,7 +94,7 @@ const resolveConfigPath = async (cwd: string, configPath?: string): Promise<stri
     return resolve(cwd, configPath)
   }
 
-  const candidates = [resolve(cwd, 'ci.config.ts'), resolve(cwd, 'ci.config.json')]
+  const candidates = CONFIG_FILE_NAMES.map((fileName) => resolve(cwd, fileName))
 
   for (const candidate of candidates) {
     try {
@@ -52,126 +108,124 @@ const resolveConfigPath = async (cwd: string, configPath?: string): Promise<stri
   return null
 }
 
-const loadConfigByExtension = async (configFilePath: string): Promise<unknown> => {
+const loadConfigByExtension = async (configFilePath: string): Promise<LoadedConfigSource> => {
   if (configFilePath.endsWith('.json')) {
     const content = await readFile(configFilePath, 'utf8')
-    return JSON.parse(content) as unknown
+    return { value: JSON.parse(content) as unknown }
   }
 
   if (configFilePath.endsWith('.ts')) {
-    return await loadTypeScriptConfig(configFilePath)
-  }
-
-  throw new Error(`Unsupported config extension: ${configFilePath}`)
-}
-
-const loadTypeScriptConfig = async (configFilePath: string): Promise<unknown> => {
-  const source = await readFile(configFilePath, 'utf8')
-  const transpiled = ts.transpileModule(source, {
-    compilerOptions: {
-      module: ts.ModuleKind.ESNext,
-      target: ts.ScriptTarget.ES2022,
-      esModuleInterop: true,
-    },
-    fileName: configFilePath,
-    reportDiagnostics: true,
-  })
-
-  if (transpiled.diagnostics && transpiled.diagnostics.length > 0) {
-    const message = ts.formatDiagnosticsWithColorAndContext(transpiled.diagnostics, {
-      getCurrentDirectory: (): string => dirname(configFilePath),
-      getCanonicalFileName: (fileName: string): string => fileName,
-      getNewLine: (): string => '\n',
-    })
-    throw new Error(`Failed to transpile ${configFilePath}\n${message}`)
-  }
-
-  const tempDirectory = await mkdtemp(resolve(tmpdir(), 'ci-runner-config-'))
-  const tempFilePath = resolve(tempDirectory, 'config.mjs')
-
-  try {
-    await writeFile(tempFilePath, transpiled.outputText, 'utf8')
-    const moduleUrl = `${pathToFileURL(tempFilePath).href}?v=${Date.now()}`
-    const loadedModule = (await import(moduleUrl)) as {
-      readonly default?: unknown
-      readonly config?: unknown
-    }
-
-    if (loadedModule.default !== undefined) {
-      return unwrapNestedDefault(loadedModule.default)
-    }
-
-    if (loadedModule.config !== undefined) {
-      return loadedModule.config
-    }
-
-    throw new Error(`Config module ${configFilePath} must export default or named "config"`)
-  } finally {
-    await rm(tempDirectory, { recursive: true, force: true })
-  }
-}
-
-const unwrapNestedDefault = (value: unknown): unknown => {
-  if (!isRecord(value)) {
-    return value
+    return { value: await loadTypeScriptConfig(configFilePath) }
   }
 
-  if ('default' in value) {
-    return value.default
+  if (configFilePath.endsWith('.yaml') || configFilePath.endsWith('.yml')) {
+    return await loadYamlConfig(configFilePath)
   }
 
-  return value
+  throw new Error(`Unsupported config extension: ${configFilePath}`)
 }
 
-const parseCiRunnerConfig = (value: unknown): CiRunnerConfig => {
+/**
+ * Parses a raw config value into a typed config.
+ *
+ * Every problem is added to `issues` with the path of the offending value, and parsing continues
+ * with the remaining values so that one load reports all problems. Invalid values are replaced by
+ * `undefined` or a placeholder, so the returned config must not be used when an error was added.
+ *
+ * @param value Raw config value loaded from disk.
+ * @param issues Receives one error per problem.
+ * @returns Parsed config, or null when the value is not an object with a steps array.
+ */
+const parseCiRunnerConfig = (value: unknown, issues: ConfigIssue[]): CiRunnerConfig | null => {
   if (!isRecord(value)) {
-    throw new Error('Config must be an object')
+    reportError(issues, '', 'Config must be an object')
+    return null
   }
 
   const stepsValue = value.steps
   if (!Array.isArray(stepsValue)) {
-    throw new Error('Config must provide a steps array')
-  }
-
-  const steps = stepsValue.map(parseConfigStep)
-  const targets = parseTargets(value.targets, steps)
-
-  const continueOnError = parseOptionalBoolean(value.continueOnError, 'continueOnError')
-  const env = parseOptionalStringRecord(value.env, 'env')
-  const cwd = parseOptionalString(value.cwd, 'cwd')
+    reportError(issues, 'steps', 'Config must provide a steps array')
+    return null
+  }
+
+  const steps = stepsValue.map((step: unknown, index) => parseConfigStep(step, index, issues))
+  collectUnknownStepDependencies(steps, issues)
+  collectDependencyCycle(steps, issues)
+  const targets = parseTargets(value.targets, steps, issues)
+
+  const continueOnError = parseOptionalBoolean(value.continueOnError, 'continueOnError', issues)
+  const concurrency = parseOptionalPositiveInteger(value.concurrency, 'concurrency', issues)
+  const timeoutMs = parseOptionalPositiveNumber(value.timeoutMs, 'timeoutMs', issues)
+  const env = parseOptionalStringRecord(value.env, 'env', issues)
+  const killSignal = parseOptionalSignal(value.killSignal, 'killSignal', issues)
+  const killGracePeriodMs = parseOptionalNonNegativeNumber(
+    value.killGracePeriodMs,
+    'killGracePeriodMs',
+    issues
+  )
+  const cwd = parseOptionalString(value.cwd, 'cwd', issues)
 
-  const output = parseOutputConfig(value.output)
-  const watch = parseWatchConfig(value.watch)
+  const output = parseOutputConfig(value.output, issues)
+  collectThresholdsWithoutMetricParsing(steps, output, issues)
+  collectAssertionsWithoutOutputCapture(steps, output, issues)
+  const watch = parseWatchConfig(value.watch, issues)
 
   return {
     steps,
     targets,
     continueOnError,
+    concurrency,
+    timeoutMs,
     env,
+    killSignal,
+    killGracePeriodMs,
     cwd,
     output,
     watch,
   }
 }
 
-const parseConfigStep = (value: unknown, index: number): CliConfigStep => {
+const parseConfigStep = (value: unknown, index: number, issues: ConfigIssue[]): CliConfigStep => {
+  const path = `steps[${index}]`
   if (!isRecord(value)) {
-    throw new Error(`steps[${index}] must be an object`)
-  }
-
-  const id = parseRequiredString(value.id, `steps[${index}].id`)
-  const name = parseRequiredString(value.name, `steps[${index}].name`)
-  const command = parseRequiredString(value.command, `steps[${index}].command`)
-  const enabled = parseOptionalBoolean(value.enabled, `steps[${index}].enabled`)
-  const cwd = parseOptionalString(value.cwd, `steps[${index}].cwd`)
-  const env = parseOptionalStringRecord(value.env, `steps[${index}].env`)
-  const optional = parseOptionalBoolean(value.optional, `steps[${index}].optional`)
-  const timeoutMs = parseOptionalNumber(value.timeoutMs, `steps[${index}].timeoutMs`)
-  const captureOutput = parseOptionalBoolean(value.captureOutput, `steps[${index}].captureOutput`)
-  const maxOutputBytes = parseOptionalNumber(value.maxOutputBytes, `steps[${index}].maxOutputBytes`)
-  const pipefail = parseOptionalBoolean(value.pipefail, `steps[${index}].pipefail`)
-  const retry = parseOptionalRetry(value.retry, `steps[${index}].retry`)
-  const when = parseOptionalCondition(value.when, `steps[${index}].when`)
+    reportError(issues, path, `${path} must be an object`)
+    return { id: '', name: '', command: '' }
+  }
+
+  const id = parseRequiredString(value.id, `${path}.id`, issues)
+  const name = parseRequiredString(value.name, `${path}.name`, issues)
+  const command = parseRequiredString(value.command, `${path}.command`, issues)
+  const enabled = parseOptionalBoolean(value.enabled, `${path}.enabled`, issues)
+  const cwd = parseOptionalString(value.cwd, `${path}.cwd`, issues)
+  const env = parseOptionalStringRecord(value.env, `${path}.env`, issues)
+  const optional = parseOptionalBoolean(value.optional, `${path}.optional`, issues)
+  const timeoutMs = parseOptionalNumber(value.timeoutMs, `${path}.timeoutMs`, issues)
+  const idleTimeoutMs = parseOptionalPositiveNumber(
+    value.idleTimeoutMs,
+    `${path}.idleTimeoutMs`,
+    issues
+  )
+  const killSignal = parseOptionalSignal(value.killSignal, `${path}.killSignal`, issues)
+  const killGracePeriodMs = parseOptionalNonNegativeNumber(
+    value.killGracePeriodMs,
+    `${path}.killGracePeriodMs`,
+    issues
+  )
+  const captureOutput = parseOptionalBoolean(value.captureOutput, `${path}.captureOutput`, issues)
+  const maxOutputBytes = parseOptionalNumber(value.maxOutputBytes, `${path}.maxOutputBytes`, issues)
+  const pipefail = parseOptionalBoolean(value.pipefail, `${path}.pipefail`, issues)
+  const retry = parseOptionalRetry(value.retry, `${path}.retry`, issues)
+  const exitCodes = parseOptionalExitCodes(value.exitCodes, `${path}.exitCodes`, issues)
+  const assertOutput = parseOptionalOutputAssertions(
+    value.assertOutput,
+    `${path}.assertOutput`,
+    issues
+  )
+  const thresholds = parseOptionalMetricThresholds(value.thresholds, `${path}.thresholds`, issues)
+  const when = parseOptionalCondition(value.when, `${path}.when`, issues)
+  const dependsOn = parseOptionalStringArray(value.dependsOn, `${path}.dependsOn`, issues)
+  const inputs = parseOptionalStringArray(value.inputs, `${path}.inputs`, issues)
+  const outputs = parseOptionalStringArray(value.outputs, `${path}.outputs`, issues)
 
   return {
     id,
@@ -182,32 +236,149 @@ const parseConfigStep = (value: unknown, index: number): CliConfigStep => {
     env,
     optional,
     timeoutMs,
+    idleTimeoutMs,
+    killSignal,
+    killGracePeriodMs,
     captureOutput,
     maxOutputBytes,
     pipefail,
     retry,
+    exitCodes,
+    assertOutput,
+    thresholds,
     when,
+    dependsOn,
+    inputs,
+    outputs,
   }
 }
 
-const parseOutputConfig = (value: unknown): CiRunnerConfig['output'] | undefined => {
+const collectThresholdsWithoutMetricParsing = (
+  steps: readonly CliConfigStep[],
+  output: CiRunnerConfig['output'],
+  issues: ConfigIssue[]
+): void => {
+  if (output?.parseMetrics === true) {
+    return
+  }
+
+  for (const [stepIndex, step] of steps.entries()) {
+    if (step.thresholds !== undefined) {
+      const path = `steps[${stepIndex}].thresholds`
+      reportError(issues, path, `${path} requires output.parseMetrics to be true`)
+    }
+  }
+}
+
+const collectAssertionsWithoutOutputCapture = (
+  steps: readonly CliConfigStep[],
+  output: CiRunnerConfig['output'],
+  issues: ConfigIssue[]
+): void => {
+  for (const [stepIndex, step] of steps.entries()) {
+    if (
+      step.assertOutput !== undefined &&
+      (step.captureOutput ?? output?.captureOutput) === false
+    ) {
+      const path = `steps[${stepIndex}].assertOutput`
+      reportError(issues, path, `${path} requires captureOutput to be enabled`)
+    }
+  }
+}
+
+const collectUnknownStepDependencies = (
+  steps: readonly CliConfigStep[],
+  issues: ConfigIssue[]
+): void => {
+  const knownStepIds = new Set(steps.map((step) => step.id))
+
+  for (const [stepIndex, step] of steps.entries()) {
+    if (step.dependsOn) {
+      collectUnknownStepIds(knownStepIds, step.dependsOn, `steps[${stepIndex}].dependsOn`, issues)
+    }
+  }
+}
+
+/**
+ * Reports the first dependency cycle. Further cycles are usually the same mistake seen from
+ * another step, so they are not reported.
+ */
+const collectDependencyCycle = (steps: readonly CliConfigStep[], issues: ConfigIssue[]): void => {
+  const stepsById = new Map(steps.map((step) => [step.id, step]))
+  const finishedStepIds = new Set<string>()
+  const activePath: string[] = []
+
+  const findCycle = (stepId: string): readonly string[] | null => {
+    if (finishedStepIds.has(stepId)) {
+      return null
+    }
+
+    const cycleStart = activePath.indexOf(stepId)
+    if (cycleStart !== -1) {
+      return [...activePath.slice(cycleStart), stepId]
+    }
+
+    activePath.push(stepId)
+    for (const dependencyId of stepsById.get(stepId)?.dependsOn ?? []) {
+      const cycle = findCycle(dependencyId)
+      if (cycle) {
+        return cycle
+      }
+    }
+    activePath.pop()
+    finishedStepIds.add(stepId)
+
+    return null
+  }
+
+  for (const step of steps) {
+    const cycle = findCycle(step.id)
+    if (cycle) {
+      reportError(
+        issues,
+        'steps',
+        `steps must not contain dependency cycles (cycle: ${cycle.join(' -> ')})`
+      )
+      return
+    }
+  }
+}
+
+const parseOutputConfig = (
+  value: unknown,
+  issues: ConfigIssue[]
+): CiRunnerConfig['output'] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!isRecord(value)) {
-    throw new Error('output must be an object')
+    return reportError(issues, 'output', 'output must be an object')
   }
 
-  const format = value.format
-  if (format !== undefined && format !== 'pretty' && format !== 'json') {
-    throw new Error('output.format must be "pretty" or "json"')
-  }
+  const format =
+    value.format === undefined || value.format === 'pretty' || value.format === 'json'
+      ? value.format
+      : reportError(issues, 'output.format', 'output.format must be "pretty" or "json"')
+
+  const verbose = parseOptionalBoolean(value.verbose, 'output.verbose', issues)
+  const parseMetrics = parseOptionalBoolean(value.parseMetrics, 'output.parseMetrics', issues)
+  const captureOutput = parseOptionalBoolean(value.captureOutput, 'output.captureOutput', issues)
+  const maxOutputBytes = parseOptionalNumber(value.maxOutputBytes, 'output.maxOutputBytes', issues)
+
+  const truncateStrategy =
+    value.truncateStrategy === undefined ||
+    value.truncateStrategy === 'head' ||
+    value.truncateStrategy === 'tail' ||
+    value.truncateStrategy === 'head-tail'
+      ? value.truncateStrategy
+      : reportError(
+          issues,
+          'output.truncateStrategy',
+          'output.truncateStrategy must be "head", "tail" or "head-tail"'
+        )
 
-  const verbose = parseOptionalBoolean(value.verbose, 'output.verbose')
-  const parseMetrics = parseOptionalBoolean(value.parseMetrics, 'output.parseMetrics')
-  const captureOutput = parseOptionalBoolean(value.captureOutput, 'output.captureOutput')
-  const maxOutputBytes = parseOptionalNumber(value.maxOutputBytes, 'output.maxOutputBytes')
+  const keepRuns = parseOptionalNonNegativeInteger(value.keepRuns, 'output.keepRuns', issues)
 
   return {
     format,
@@ -215,43 +386,51 @@ const parseOutputConfig = (value: unknown): CiRunnerConfig['output'] | undefined
     parseMetrics,
     captureOutput,
     maxOutputBytes,
+    truncateStrategy,
+    keepRuns,
   }
 }
 
 const parseTargets = (
   value: unknown,
-  steps: readonly CliConfigStep[]
+  steps: readonly CliConfigStep[],
+  issues: ConfigIssue[]
 ): readonly CiRunnerTarget[] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!Array.isArray(value)) {
-    throw new Error('targets must be an array')
+    return reportError(issues, 'targets', 'targets must be an array')
   }
 
-  const targets = value.map(parseTarget)
-  assertUniqueTargetIds(targets)
-  assertKnownTargetStepReferences(targets, steps)
+  const targets = value.map((target: unknown, index) => parseTarget(target, index, issues))
+  collectDuplicateTargetIds(targets, issues)
+  collectUnknownTargetStepReferences(targets, steps, issues)
   return targets
 }
 
-const parseTarget = (value: unknown, index: number): CiRunnerTarget => {
+const parseTarget = (value: unknown, index: number, issues: ConfigIssue[]): CiRunnerTarget => {
+  const path = `targets[${index}]`
   if (!isRecord(value)) {
-    throw new Error(`targets[${index}] must be an object`)
+    reportError(issues, path, `${path} must be an object`)
+    return { id: '', name: '' }
   }
 
-  const id = parseRequiredString(value.id, `targets[${index}].id`)
-  const name = parseRequiredString(value.name, `targets[${index}].name`)
-  const description = parseOptionalString(value.description, `targets[${index}].description`)
+  const id = parseRequiredString(value.id, `${path}.id`, issues)
+  const name = parseRequiredString(value.name, `${path}.name`, issues)
+  const description = parseOptionalString(value.description, `${path}.description`, issues)
   const includeStepIds = parseOptionalStringArray(
     value.includeStepIds,
-    `targets[${index}].includeStepIds`
+    `${path}.includeStepIds`,
+    issues
   )
   const excludeStepIds = parseOptionalStringArray(
     value.excludeStepIds,
-    `targets[${index}].excludeStepIds`
+    `${path}.excludeStepIds`,
+    issues
   )
+  const failOnFlaky = parseOptionalBoolean(value.failOnFlaky, `${path}.failOnFlaky`, issues)
 
   return {
     id,
@@ -259,185 +438,446 @@ const parseTarget = (value: unknown, index: number): CiRunnerTarget => {
     description,
     includeStepIds,
     excludeStepIds,
+    failOnFlaky,
   }
 }
 
-const assertUniqueTargetIds = (targets: readonly CiRunnerTarget[]): void => {
+const collectDuplicateTargetIds = (
+  targets: readonly CiRunnerTarget[],
+  issues: ConfigIssue[]
+): void => {
   const seenById = new Set<string>()
 
-  for (const target of targets) {
+  for (const [index, target] of targets.entries()) {
     if (seenById.has(target.id)) {
-      throw new Error(`targets must use unique ids (duplicate: ${target.id})`)
+      reportError(
+        issues,
+        `targets[${index}].id`,
+        `targets must use unique ids (duplicate: ${target.id})`
+      )
     }
 
     seenById.add(target.id)
   }
 }
 
-const assertKnownTargetStepReferences = (
+const collectUnknownTargetStepReferences = (
   targets: readonly CiRunnerTarget[],
-  steps: readonly CliConfigStep[]
+  steps: readonly CliConfigStep[],
+  issues: ConfigIssue[]
 ): void => {
   const knownStepIds = new Set(steps.map((step) => step.id))
 
   for (const [targetIndex, target] of targets.entries()) {
     if (target.includeStepIds) {
-      assertTargetStepArray(
+      collectUnknownStepIds(
         knownStepIds,
         target.includeStepIds,
-        `targets[${targetIndex}].includeStepIds`
+        `targets[${targetIndex}].includeStepIds`,
+        issues
       )
     }
 
     if (target.excludeStepIds) {
-      assertTargetStepArray(
+      collectUnknownStepIds(
         knownStepIds,
         target.excludeStepIds,
-        `targets[${targetIndex}].excludeStepIds`
+        `targets[${targetIndex}].excludeStepIds`,
+        issues
       )
     }
   }
 }
 
-const assertTargetStepArray = (
+const collectUnknownStepIds = (
   knownStepIds: ReadonlySet<string>,
   referencedStepIds: readonly string[],
-  path: string
+  path: string,
+  issues: ConfigIssue[]
 ): void => {
   for (const [index, stepId] of referencedStepIds.entries()) {
     if (!knownStepIds.has(stepId)) {
-      throw new Error(`${path}[${index}] references unknown step id: ${stepId}`)
+      const entryPath = `${path}[${index}]`
+      reportError(issues, entryPath, `${entryPath} references unknown step id: ${stepId}`)
     }
   }
 }
 
-const parseWatchConfig = (value: unknown): CiRunnerConfig['watch'] | undefined => {
+const parseWatchConfig = (
+  value: unknown,
+  issues: ConfigIssue[]
+): CiRunnerConfig['watch'] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!isRecord(value)) {
-    throw new Error('watch must be an object')
+    return reportError(issues, 'watch', 'watch must be an object')
   }
 
-  const exclude = parseOptionalStringArray(value.exclude, 'watch.exclude')
+  const exclude = parseOptionalStringArray(value.exclude, 'watch.exclude', issues)
 
   return {
     exclude,
   }
 }
 
-const parseOptionalRetry = (value: unknown, path: string): CliConfigStep['retry'] | undefined => {
+const parseOptionalRetry = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): CliConfigStep['retry'] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!isRecord(value)) {
-    throw new Error(`${path} must be an object`)
+    return reportError(issues, path, `${path} must be an object`)
   }
 
-  const maxAttempts = parseRequiredNumber(value.maxAttempts, `${path}.maxAttempts`)
-  const delayMs = parseOptionalNumber(value.delayMs, `${path}.delayMs`)
-  const retryOnTimeout = parseOptionalBoolean(value.retryOnTimeout, `${path}.retryOnTimeout`)
-  const retryOnSignal = parseOptionalBoolean(value.retryOnSignal, `${path}.retryOnSignal`)
+  const maxAttempts = parseRequiredNumber(value.maxAttempts, `${path}.maxAttempts`, issues)
+  const delayMs = parseOptionalNumber(value.delayMs, `${path}.delayMs`, issues)
+  let backoffMultiplier = parseOptionalNumber(
+    value.backoffMultiplier,
+    `${path}.backoffMultiplier`,
+    issues
+  )
+  if (backoffMultiplier !== undefined && backoffMultiplier < 1) {
+    backoffMultiplier = reportError(
+      issues,
+      `${path}.backoffMultiplier`,
+      `${path}.backoffMultiplier must be at least 1`
+    )
+  }
+  const maxDelayMs = parseOptionalNumber(value.maxDelayMs, `${path}.maxDelayMs`, issues)
+  let jitter = parseOptionalNumber(value.jitter, `${path}.jitter`, issues)
+  if (jitter !== undefined && (jitter < 0 || jitter > 1)) {
+    jitter = reportError(issues, `${path}.jitter`, `${path}.jitter must be between 0 and 1`)
+  }
+  const retryOnTimeout = parseOptionalBoolean(
+    value.retryOnTimeout,
+    `${path}.retryOnTimeout`,
+    issues
+  )
+  const retryOnSignal = parseOptionalBoolean(value.retryOnSignal, `${path}.retryOnSignal`, issues)
   const retryOnSpawnFailure = parseOptionalBoolean(
     value.retryOnSpawnFailure,
-    `${path}.retryOnSpawnFailure`
+    `${path}.retryOnSpawnFailure`,
+    issues
+  )
+  const retryOnExitCodes = parseOptionalIntegerArray(
+    value.retryOnExitCodes,
+    `${path}.retryOnExitCodes`,
+    issues
   )
+  const retryOnOutputPattern = parseOptionalRegExpSource(
+    value.retryOnOutputPattern,
+    `${path}.retryOnOutputPattern`,
+    issues
+  )
+  const failOnFlaky = parseOptionalBoolean(value.failOnFlaky, `${path}.failOnFlaky`, issues)
 
   return {
     maxAttempts,
     delayMs,
+    backoffMultiplier,
+    maxDelayMs,
+    jitter,
     retryOnTimeout,
     retryOnSignal,
     retryOnSpawnFailure,
+    retryOnExitCodes,
+    retryOnOutputPattern,
+    failOnFlaky,
   }
 }
 
+const parseOptionalExitCodes = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): CliConfigStep['exitCodes'] | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!isRecord(value)) {
+    return reportError(issues, path, `${path} must be an object`)
+  }
+
+  const success = parseOptionalIntegerArray(value.success, `${path}.success`, issues)
+  const warning = parseOptionalIntegerArray(value.warning, `${path}.warning`, issues)
+  const skip = parseOptionalIntegerArray(value.skip, `${path}.skip`, issues)
+
+  const listedExitCodes = new Set<number>()
+  const repeatedExitCodes = new Set<number>()
+  for (const exitCode of [...(success ?? []), ...(warning ?? []), ...(skip ?? [])]) {
+    if (listedExitCodes.has(exitCode) && !repeatedExitCodes.has(exitCode)) {
+      reportError(issues, path, `${path} must not list exit code ${exitCode} more than once`)
+      repeatedExitCodes.add(exitCode)
+    }
+    listedExitCodes.add(exitCode)
+  }
+
+  return {
+    success,
+    warning,
+    skip,
+  }
+}
+
+const parseOptionalOutputAssertions = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): CliConfigStep['assertOutput'] | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!isRecord(value)) {
+    return reportError(issues, path, `${path} must be an object`)
+  }
+
+  const mustMatch = parseOptionalRegExpSourceArray(value.mustMatch, `${path}.mustMatch`, issues)
+  const mustNotMatch = parseOptionalRegExpSourceArray(
+    value.mustNotMatch,
+    `${path}.mustNotMatch`,
+    issues
+  )
+
+  return {
+    mustMatch,
+    mustNotMatch,
+  }
+}
+
+const parseOptionalMetricThresholds = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): CliConfigStep['thresholds'] | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!isRecord(value)) {
+    return reportError(issues, path, `${path} must be an object`)
+  }
+
+  const thresholds: Record<string, NonNullable<CliConfigStep['thresholds']>[string]> = {}
+  for (const [metric, threshold] of Object.entries(value)) {
+    const thresholdPath = `${path}.${metric}`
+    if (!isRecord(threshold)) {
+      reportError(issues, thresholdPath, `${thresholdPath} must be an object`)
+      continue
+    }
+
+    const min = parseOptionalNumber(threshold.min, `${thresholdPath}.min`, issues)
+    const max = parseOptionalNumber(threshold.max, `${thresholdPath}.max`, issues)
+    if (threshold.min === undefined && threshold.max === undefined) {
+      reportError(issues, thresholdPath, `${thresholdPath} must set min or max`)
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      reportError(
+        issues,
+        `${thresholdPath}.min`,
+        `${thresholdPath}.min must not be greater than max`
+      )
+    }
+
+    thresholds[metric] = { min, max }
+  }
+
+  return thresholds
+}
+
 const parseOptionalCondition = (
   value: unknown,
-  path: string
+  path: string,
+  issues: ConfigIssue[]
 ): CliConfigStep['when'] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!isRecord(value)) {
-    throw new Error(`${path} must be an object`)
+    return reportError(issues, path, `${path} must be an object`)
   }
 
-  const env = parseOptionalStringRecord(value.env, `${path}.env`)
+  const env = parseOptionalStringRecord(value.env, `${path}.env`, issues)
 
   return {
     env,
   }
 }
 
-const parseRequiredString = (value: unknown, path: string): string => {
+/**
+ * Returns an empty string after reporting an invalid value, which keeps the parsed step or target
+ * in place so that later checks still see its other fields.
+ */
+const parseRequiredString = (value: unknown, path: string, issues: ConfigIssue[]): string => {
   if (typeof value !== 'string' || value.length === 0) {
-    throw new Error(`${path} must be a non-empty string`)
+    reportError(issues, path, `${path} must be a non-empty string`)
+    return ''
   }
 
   return value
 }
 
-const parseRequiredNumber = (value: unknown, path: string): number => {
+const parseRequiredNumber = (value: unknown, path: string, issues: ConfigIssue[]): number => {
   if (typeof value !== 'number' || Number.isNaN(value)) {
-    throw new Error(`${path} must be a valid number`)
+    reportError(issues, path, `${path} must be a valid number`)
+    return Number.NaN
   }
 
   return value
 }
 
-const parseOptionalString = (value: unknown, path: string): string | undefined => {
+const parseOptionalString = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): string | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (typeof value !== 'string') {
-    throw new Error(`${path} must be a string`)
+    return reportError(issues, path, `${path} must be a string`)
   }
 
   return value
 }
 
-const parseOptionalNumber = (value: unknown, path: string): number | undefined => {
+const parseOptionalNumber = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (typeof value !== 'number' || Number.isNaN(value)) {
-    throw new Error(`${path} must be a valid number`)
+    return reportError(issues, path, `${path} must be a valid number`)
+  }
+
+  return value
+}
+
+const parseOptionalPositiveInteger = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    return reportError(issues, path, `${path} must be a positive integer`)
+  }
+
+  return value
+}
+
+const parseOptionalPositiveNumber = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
+  const parsed = parseOptionalNumber(value, path, issues)
+  if (parsed !== undefined && parsed <= 0) {
+    return reportError(issues, path, `${path} must be a positive number`)
+  }
+
+  return parsed
+}
+
+const parseOptionalNonNegativeInteger = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    return reportError(issues, path, `${path} must be a non-negative integer`)
   }
 
   return value
 }
 
-const parseOptionalBoolean = (value: unknown, path: string): boolean | undefined => {
+const parseOptionalNonNegativeNumber = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): number | undefined => {
+  const parsed = parseOptionalNumber(value, path, issues)
+  if (parsed !== undefined && parsed < 0) {
+    return reportError(issues, path, `${path} must not be negative`)
+  }
+
+  return parsed
+}
+
+const parseOptionalSignal = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): NodeJS.Signals | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!isSignalName(value)) {
+    return reportError(issues, path, `${path} must be a signal name such as "SIGTERM" or "SIGINT"`)
+  }
+
+  return value
+}
+
+const isSignalName = (value: unknown): value is NodeJS.Signals => {
+  return typeof value === 'string' && Object.hasOwn(osConstants.signals, value)
+}
+
+const parseOptionalBoolean = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): boolean | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (typeof value !== 'boolean') {
-    throw new Error(`${path} must be a boolean`)
+    return reportError(issues, path, `${path} must be a boolean`)
   }
 
   return value
 }
 
-const parseOptionalStringArray = (value: unknown, path: string): readonly string[] | undefined => {
+const parseOptionalStringArray = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): readonly string[] | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!Array.isArray(value)) {
-    throw new Error(`${path} must be an array`)
+    return reportError(issues, path, `${path} must be an array`)
   }
 
   const result: string[] = []
   for (const [index, entry] of value.entries()) {
     if (typeof entry !== 'string' || entry.length === 0) {
-      throw new Error(`${path}[${index}] must be a non-empty string`)
+      reportError(issues, `${path}[${index}]`, `${path}[${index}] must be a non-empty string`)
+      continue
     }
     result.push(entry)
   }
@@ -445,16 +885,83 @@ const parseOptionalStringArray = (value: unknown, path: string): readonly string
   return result
 }
 
+const parseOptionalIntegerArray = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): readonly number[] | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!Array.isArray(value)) {
+    return reportError(issues, path, `${path} must be an array`)
+  }
+
+  const result: number[] = []
+  for (const [index, entry] of value.entries()) {
+    if (typeof entry !== 'number' || !Number.isInteger(entry)) {
+      reportError(issues, `${path}[${index}]`, `${path}[${index}] must be an integer`)
+      continue
+    }
+    result.push(entry)
+  }
+
+  return result
+}
+
+const parseOptionalRegExpSource = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): string | undefined => {
+  const source = parseOptionalString(value, path, issues)
+  if (source !== undefined && !isValidRegExp(source)) {
+    return reportError(issues, path, `${path} must be a valid regular expression`)
+  }
+
+  return source
+}
+
+const parseOptionalRegExpSourceArray = (
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): readonly string[] | undefined => {
+  const sources = parseOptionalStringArray(value, path, issues)
+  for (const [index, source] of (sources ?? []).entries()) {
+    if (!isValidRegExp(source)) {
+      reportError(
+        issues,
+        `${path}[${index}]`,
+        `${path}[${index}] must be a valid regular expression`
+      )
+    }
+  }
+
+  return sources
+}
+
+const isValidRegExp = (source: string): boolean => {
+  try {
+    new RegExp(source)
+    return true
+  } catch {
+    return false
+  }
+}
+
 const parseOptionalStringRecord = (
   value: unknown,
-  path: string
+  path: string,
+  issues: ConfigIssue[]
 ): Readonly<Record<string, string>> | undefined => {
   if (value === undefined) {
     return undefined
   }
 
   if (!isRecord(value)) {
-    throw new Error(`${path} must be an object`)
+    return reportError(issues, path, `${path} must be an object`)
   }
 
   const entries = Object.entries(value)
@@ -462,7 +969,8 @@ const parseOptionalStringRecord = (
 
   for (const [key, entryValue] of entries) {
     if (typeof entryValue !== 'string') {
-      throw new Error(`${path}.${key} must be a string`)
+      reportError(issues, `${path}.${key}`, `${path}.${key} must be a string`)
+      continue
     }
     parsed[key] = entryValue
   }
@@ -470,6 +978,15 @@ const parseOptionalStringRecord = (
   return parsed
 }
 
+/**
+ * Adds an error for the value at `path` and returns undefined, so an optional parser can report
+ * and drop an invalid value in one statement.
+ */
+const reportError = (issues: ConfigIssue[], path: string, message: string): undefined => {
+  issues.push({ path, message, severity: 'error' })
+  return undefined
+}
+
 const isRecord = (value: unknown): value is Record<string, unknown> => {
   return typeof value === 'object' && value !== null && !Array.isArray(value)
 }
@@ -0,0 +1,387 @@
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import ts from 'typescript'
+
+const TYPESCRIPT_EXTENSIONS: readonly string[] = [
+  ts.Extension.Ts,
+  ts.Extension.Tsx,
+  ts.Extension.Mts,
+  ts.Extension.Cts,
+]
+
+const JAVASCRIPT_EXTENSIONS: readonly string[] = [
+  ts.Extension.Js,
+  ts.Extension.Jsx,
+  ts.Extension.Mjs,
+  ts.Extension.Cjs,
+]
+
+/**
+ * Replacement for one import specifier of a transpiled module.
+ */
+interface RewrittenSpecifier {
+  readonly specifier: string
+  /**
+   * True when the target is a JSON file compiled into an ES module. Import attributes such as
+   * `with { type: 'json' }` are removed, because Node rejects them for JavaScript modules.
+   */
+  readonly dropAttributes: boolean
+}
+
+/**
+ * Local module that is written to the temp directory as an ES module.
+ */
+interface CompiledConfigModule {
+  readonly fileName: string
+  readonly outputText: string
+}
+
+/**
+ * Loads a TypeScript config file together with the local modules it imports.
+ *
+ * Relative imports and `tsconfig` path aliases that resolve to TypeScript files are transpiled,
+ * JSON files become modules with a default export, and local JavaScript files are imported in
+ * place. Package imports are resolved from the nearest `node_modules` directory, where the
+ * transpiled modules are written for the duration of the import.
+ *
+ * @param configFilePath Absolute config file path.
+ * @returns Default export, or named `config` export, of the config module.
+ * @throws Error when a module cannot be transpiled, resolved or imported.
+ */
+export const loadTypeScriptConfig = async (configFilePath: string): Promise<unknown> => {
+  const modules = await compileConfigModuleGraph(configFilePath)
+  const tempDirectory = await createConfigTempDirectory(configFilePath)
+
+  try {
+    for (const compiledModule of modules) {
+      await writeFile(
+        resolve(tempDirectory, compiledModule.fileName),
+        compiledModule.outputText,
+        'utf8'
+      )
+    }
+
+    const entryFilePath = resolve(tempDirectory, modules[0]?.fileName ?? '')
+    const moduleUrl = `${pathToFileURL(entryFilePath).href}?v=${Date.now()}`
+    const loadedModule = (await import(moduleUrl)) as {
+      readonly default?: unknown
+      readonly config?: unknown
+    }
+
+    if (loadedModule.default !== undefined) {
+      return unwrapNestedDefault(loadedModule.default)
+    }
+
+    if (loadedModule.config !== undefined) {
+      return loadedModule.config
+    }
+
+    throw new Error(`Config module ${configFilePath} must export default or named "config"`)
+  } finally {
+    await rm(tempDirectory, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Transpiles the config file and every local module reachable from it.
+ *
+ * The config module is always first. Each module gets a flat `.mjs` file name, and import
+ * specifiers are rewritten to point at those names. JSON imports lose their `type: 'json'`
+ * attribute on the way, since they now load an ES module.
+ */
+const compileConfigModuleGraph = async (
+  configFilePath: string
+): Promise<readonly CompiledConfigModule[]> => {
+  const resolutionOptions = readResolutionOptions(configFilePath)
+  const fileNamesBySourcePath = new Map<string, string>([[configFilePath, 'config.mjs']])
+  const sourcePaths = [configFilePath]
+  const modules: CompiledConfigModule[] = []
+
+  const getModuleFileName = (sourcePath: string): string => {
+    const existingFileName = fileNamesBySourcePath.get(sourcePath)
+    if (existingFileName) {
+      return existingFileName
+    }
+
+    const fileName = `module-${fileNamesBySourcePath.size}.mjs`
+    fileNamesBySourcePath.set(sourcePath, fileName)
+    sourcePaths.push(sourcePath)
+    return fileName
+  }
+
+  for (let index = 0; index < sourcePaths.length; index += 1) {
+    const sourcePath = sourcePaths[index]
+    if (!sourcePath) {
+      continue
+    }
+
+    const fileName = fileNamesBySourcePath.get(sourcePath) ?? ''
+    const source = await readFile(sourcePath, 'utf8')
+
+    if (sourcePath.endsWith(ts.Extension.Json)) {
+      modules.push({ fileName, outputText: createJsonModule(source, sourcePath) })
+    } else {
+      const rewrittenSpecifiers = new Map<string, RewrittenSpecifier>()
+      for (const specifier of listModuleSpecifiers(source)) {
+        const resolved = resolveLocalModule(specifier, sourcePath, resolutionOptions)
+        if (resolved.kind === 'compiled') {
+          rewrittenSpecifiers.set(specifier, {
+            specifier: `./${getModuleFileName(resolved.path)}`,
+            dropAttributes: resolved.path.endsWith(ts.Extension.Json),
+          })
+        } else if (resolved.kind === 'external') {
+          rewrittenSpecifiers.set(specifier, {
+            specifier: pathToFileURL(resolved.path).href,
+            dropAttributes: false,
+          })
+        }
+      }
+
+      modules.push({
+        fileName,
+        outputText: transpileConfigModule(source, sourcePath, rewrittenSpecifiers),
+      })
+    }
+  }
+
+  return modules
+}
+
+/**
+ * Reads module resolution settings, including `paths` and `baseUrl`, from the nearest
+ * `tsconfig.json`. Resolution always follows bundler rules so extensionless and `.ts` imports work.
+ */
+const readResolutionOptions = (configFilePath: string): ts.CompilerOptions => {
+  const resolutionOverrides: ts.CompilerOptions = {
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowImportingTsExtensions: true,
+    resolveJsonModule: true,
+  }
+
+  const tsconfigPath = ts.findConfigFile(dirname(configFilePath), ts.sys.fileExists)
+  if (!tsconfigPath) {
+    return resolutionOverrides
+  }
+
+  const parsedTsconfig = ts.getParsedCommandLineOfConfigFile(
+    tsconfigPath,
+    {},
+    {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: (diagnostic): void => {
+        throw new Error(
+          `Failed to read ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`
+        )
+      },
+    }
+  )
+
+  return {
+    ...parsedTsconfig?.options,
+    ...resolutionOverrides,
+  }
+}
+
+const listModuleSpecifiers = (source: string): readonly string[] => {
+  const { importedFiles } = ts.preProcessFile(source, true, true)
+  return [...new Set(importedFiles.map((importedFile) => importedFile.fileName))]
+}
+
+type ResolvedConfigImport =
+  | { readonly kind: 'compiled'; readonly path: string }
+  | { readonly kind: 'external'; readonly path: string }
+  | { readonly kind: 'package' }
+
+/**
+ * Classifies one import of a config module.
+ *
+ * TypeScript and JSON files outside `node_modules` are compiled into the graph, local JavaScript
+ * files are imported from their original location, and everything else is left to Node.
+ */
+const resolveLocalModule = (
+  specifier: string,
+  containingFile: string,
+  options: ts.CompilerOptions
+): ResolvedConfigImport => {
+  const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, ts.sys)
+
+  if (!resolvedModule) {
+    if (specifier.startsWith('.')) {
+      throw new Error(`Cannot resolve "${specifier}" imported by ${containingFile}`)
+    }
+    return { kind: 'package' }
+  }
+
+  const { extension, isExternalLibraryImport, resolvedFileName } = resolvedModule
+  if (isExternalLibraryImport === true) {
+    return { kind: 'package' }
+  }
+
+  if (TYPESCRIPT_EXTENSIONS.includes(extension) || extension === ts.Extension.Json) {
+    return { kind: 'compiled', path: resolve(resolvedFileName) }
+  }
+
+  if (JAVASCRIPT_EXTENSIONS.includes(extension)) {
+    return { kind: 'external', path: resolve(resolvedFileName) }
+  }
+
+  return { kind: 'package' }
+}
+
+const transpileConfigModule = (
+  source: string,
+  sourcePath: string,
+  rewrittenSpecifiers: ReadonlyMap<string, RewrittenSpecifier>
+): string => {
+  const transpiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+    fileName: sourcePath,
+    reportDiagnostics: true,
+    transformers: { after: [createSpecifierRewriter(rewrittenSpecifiers)] },
+  })
+
+  if (transpiled.diagnostics && transpiled.diagnostics.length > 0) {
+    const message = ts.formatDiagnosticsWithColorAndContext(transpiled.diagnostics, {
+      getCurrentDirectory: (): string => dirname(sourcePath),
+      getCanonicalFileName: (fileName: string): string => fileName,
+      getNewLine: (): string => '\n',
+    })
+    throw new Error(`Failed to transpile ${sourcePath}\n${message}`)
+  }
+
+  return transpiled.outputText
+}
+
+/**
+ * Rewrites module specifiers of static imports, re-exports and dynamic `import()` calls, and drops
+ * the import attributes of rewritten JSON imports.
+ */
+const createSpecifierRewriter = (
+  rewrittenSpecifiers: ReadonlyMap<string, RewrittenSpecifier>
+): ts.TransformerFactory<ts.SourceFile> => {
+  return (context) => {
+    const { factory } = context
+
+    const findRewrite = (specifier: ts.Expression): RewrittenSpecifier | undefined => {
+      return ts.isStringLiteral(specifier) ? rewrittenSpecifiers.get(specifier.text) : undefined
+    }
+
+    const rewrite = (specifier: ts.Expression): ts.Expression => {
+      const rewritten = findRewrite(specifier)
+      return rewritten === undefined ? specifier : factory.createStringLiteral(rewritten.specifier)
+    }
+
+    const keepAttributes = (
+      specifier: ts.Expression,
+      attributes: ts.ImportAttributes | undefined
+    ): ts.ImportAttributes | undefined => {
+      return findRewrite(specifier)?.dropAttributes === true ? undefined : attributes
+    }
+
+    const visit = (node: ts.Node): ts.Node => {
+      if (ts.isImportDeclaration(node)) {
+        return factory.updateImportDeclaration(
+          node,
+          node.modifiers,
+          node.importClause,
+          rewrite(node.moduleSpecifier),
+          keepAttributes(node.moduleSpecifier, node.attributes)
+        )
+      }
+
+      if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+        return factory.updateExportDeclaration(
+          node,
+          node.modifiers,
+          node.isTypeOnly,
+          node.exportClause,
+          rewrite(node.moduleSpecifier),
+          keepAttributes(node.moduleSpecifier, node.attributes)
+        )
+      }
+
+      if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        const [specifier, ...restArguments] = node.arguments
+        if (specifier) {
+          // The second argument only carries import attributes, such as `{ with: { type: 'json' } }`.
+          const optionArguments =
+            findRewrite(specifier)?.dropAttributes === true ? [] : restArguments
+          return factory.updateCallExpression(node, node.expression, node.typeArguments, [
+            rewrite(specifier),
+            ...optionArguments.map((argument) => ts.visitNode(argument, visit) as ts.Expression),
+          ])
+        }
+      }
+
+      return ts.visitEachChild(node, visit, context)
+    }
+
+    return (sourceFile) => ts.visitNode(sourceFile, visit) as ts.SourceFile
+  }
+}
+
+const createJsonModule = (source: string, sourcePath: string): string => {
+  try {
+    return `export default ${JSON.stringify(JSON.parse(source))}\n`
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to parse ${sourcePath}: ${reason}`)
+  }
+}
+
+/**
+ * Creates the directory for transpiled modules below the `node_modules` directory nearest to the
+ * config file, so package imports resolve as they would from the config file itself. Falls back to
+ * the OS temp directory when there is none.
+ */
+const createConfigTempDirectory = async (configFilePath: string): Promise<string> => {
+  const nodeModulesDirectory = await findNearestNodeModulesDirectory(dirname(configFilePath))
+  if (!nodeModulesDirectory) {
+    return await mkdtemp(resolve(tmpdir(), 'ci-runner-config-'))
+  }
+
+  const parentDirectory = resolve(nodeModulesDirectory, '.ci-runner-config')
+  await mkdir(parentDirectory, { recursive: true })
+  return await mkdtemp(resolve(parentDirectory, 'config-'))
+}
+
+const findNearestNodeModulesDirectory = async (directory: string): Promise<string | null> => {
+  for (let current = directory; ; current = dirname(current)) {
+    const candidate = resolve(current, 'node_modules')
+    try {
+      if ((await stat(candidate)).isDirectory()) {
+        return candidate
+      }
+    } catch {
+      // Keep walking up to the file system root.
+    }
+
+    if (dirname(current) === current) {
+      return null
+    }
+  }
+}
+
+const unwrapNestedDefault = (value: unknown): unknown => {
+  if (!isRecord(value)) {
+    return value
+  }
+
+  if ('default' in value) {
+    return value.default
+  }
+
+  return value
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
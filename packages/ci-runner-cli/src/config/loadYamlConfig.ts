@@ -0,0 +1,91 @@
+import { readFile } from 'node:fs/promises'
+
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument, type Document } from 'yaml'
+
+/**
+ * Parsed YAML config with access to source positions.
+ */
+export interface LoadedYamlConfig {
+  /** Plain config value with anchors, aliases and merge keys resolved. */
+  readonly value: unknown
+  /**
+   * Returns the position of a config path such as `steps[0].timeoutMs`, formatted as
+   * `line 3, column 7`. Falls back to the nearest parent that exists in the file.
+   */
+  readonly locate: (path: string) => string | undefined
+}
+
+/**
+ * Loads a YAML config file.
+ *
+ * Anchors and aliases are resolved, and `<<` merge keys are supported so step fragments can be
+ * reused.
+ *
+ * @param configFilePath Absolute config file path.
+ * @returns Parsed config value and a path locator for error messages.
+ * @throws Error with line and column numbers when the file is not valid YAML.
+ */
+export const loadYamlConfig = async (configFilePath: string): Promise<LoadedYamlConfig> => {
+  const source = await readFile(configFilePath, 'utf8')
+  const lineCounter = new LineCounter()
+  const document = parseDocument(source, { lineCounter, merge: true, prettyErrors: true })
+
+  if (document.errors.length > 0) {
+    const messages = document.errors.map((error) => error.message)
+    throw new Error(`Failed to parse ${configFilePath}\n${messages.join('\n')}`)
+  }
+
+  return {
+    value: document.toJS() as unknown,
+    locate: (path: string): string | undefined => {
+      const offset = findPathOffset(document, parseConfigPath(path))
+      if (offset === undefined) {
+        return undefined
+      }
+
+      const { line, col } = lineCounter.linePos(offset)
+      return `line ${line}, column ${col}`
+    },
+  }
+}
+
+/**
+ * Finds the offset of the map key or sequence item at the end of the path.
+ */
+const findPathOffset = (
+  document: Document,
+  segments: readonly (string | number)[]
+): number | undefined => {
+  for (let length = segments.length; length > 0; length -= 1) {
+    const parent = document.getIn(segments.slice(0, length - 1), true)
+    const segment = segments[length - 1]
+
+    if (isMap(parent)) {
+      const pair = parent.items.find((item) => isScalar(item.key) && item.key.value === segment)
+      if (isNode(pair?.key) && pair.key.range) {
+        return pair.key.range[0]
+      }
+    }
+
+    if (isSeq(parent) && typeof segment === 'number') {
+      const item = parent.items[segment]
+      if (isNode(item) && item.range) {
+        return item.range[0]
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Splits a config path such as `steps[0].retry.maxAttempts` into map keys and sequence indexes.
+ */
+const parseConfigPath = (path: string): readonly (string | number)[] => {
+  const segments: (string | number)[] = []
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/gu)) {
+    segments.push(match[2] === undefined ? (match[1] ?? '') : Number(match[2]))
+  }
+
+  return segments
+}
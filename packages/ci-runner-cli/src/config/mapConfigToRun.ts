@@ -20,6 +20,12 @@ export interface MappedPipelineStep {
   readonly optional?: boolean
   /** Step timeout in milliseconds. */
   readonly timeoutMs?: number
+  /** Step idle timeout in milliseconds. */
+  readonly idleTimeoutMs?: number
+  /** Signal sent to stop this step. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`. */
+  readonly killGracePeriodMs?: number
   /** Disables stdout and stderr capture when false. */
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
@@ -28,6 +34,18 @@ export interface MappedPipelineStep {
   readonly pipefail?: boolean
   /** Retry policy for this step. */
   readonly retry?: CliConfigStep['retry']
+  /** Exit codes that count as success, warning, or skip. */
+  readonly exitCodes?: CliConfigStep['exitCodes']
+  /** Output patterns checked after a successful exit. */
+  readonly assertOutput?: CliConfigStep['assertOutput']
+  /** Allowed ranges for parsed metrics by label. */
+  readonly thresholds?: CliConfigStep['thresholds']
+  /** Step ids that must pass before this step starts. */
+  readonly dependsOn?: readonly string[]
+  /** Input file globs that make the step cacheable. */
+  readonly inputs?: readonly string[]
+  /** Output file globs that must be unchanged for a cache hit. */
+  readonly outputs?: readonly string[]
 }
 
 /**
@@ -44,10 +62,20 @@ export interface MappedPipelineRunOptions {
   readonly env: NodeJS.ProcessEnv
   /** Continue after hard failures when true. */
   readonly continueOnError: boolean
+  /** Maximum number of steps executed at the same time. */
+  readonly concurrency?: number
+  /** Total time budget for the run in milliseconds. */
+  readonly timeoutMs?: number
+  /** Signal sent to stop timed-out or cancelled steps. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`. */
+  readonly killGracePeriodMs?: number
   /** Disables stdout and stderr capture for all steps when false. */
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
   readonly maxOutputBytes?: number
+  /** Part of each stream kept when `maxOutputBytes` is exceeded. */
+  readonly truncateStrategy?: NonNullable<CiRunnerConfig['output']>['truncateStrategy']
   /** Makes shell pipelines fail when any command in the pipeline fails. */
   readonly pipefail?: boolean
 }
@@ -88,6 +116,9 @@ export const mapConfigToRun = (
   const runCwd = config.cwd ? resolve(cwd, config.cwd) : cwd
   const env = { ...process.env, ...config.env }
   const selectedSteps = selectTargetSteps(config, targetId)
+  const targetFailsOnFlaky =
+    targetId !== undefined &&
+    config.targets?.find((entry) => entry.id === targetId)?.failOnFlaky === true
 
   const steps: MappedPipelineStep[] = []
   const excludedSteps: ExcludedPipelineStep[] = []
@@ -104,19 +135,26 @@ export const mapConfigToRun = (
       continue
     }
 
-    steps.push(mapStep(step, runCwd))
+    steps.push(mapStep(step, runCwd, targetFailsOnFlaky))
   }
 
+  const scheduledStepIds = new Set(steps.map((step) => step.id))
+
   const continueOnError = failFast ? false : (config.continueOnError ?? true)
 
   return {
-    steps,
+    steps: steps.map((step) => withScheduledDependencies(step, scheduledStepIds)),
     excludedSteps,
     cwd: runCwd,
     env,
     continueOnError,
+    concurrency: config.concurrency,
+    timeoutMs: config.timeoutMs,
+    killSignal: config.killSignal,
+    killGracePeriodMs: config.killGracePeriodMs,
     captureOutput: config.output?.captureOutput,
     maxOutputBytes: config.output?.maxOutputBytes,
+    truncateStrategy: config.output?.truncateStrategy,
   }
 }
 
@@ -142,7 +180,7 @@ const selectTargetSteps = (config: CiRunnerConfig, targetId?: string): readonly
   })
 }
 
-const mapStep = (step: CliConfigStep, runCwd: string): MappedPipelineStep => {
+const mapStep = (step: CliConfigStep, runCwd: string, failOnFlaky: boolean): MappedPipelineStep => {
   return {
     id: step.id,
     name: step.name,
@@ -151,10 +189,39 @@ const mapStep = (step: CliConfigStep, runCwd: string): MappedPipelineStep => {
     env: step.env,
     optional: step.optional,
     timeoutMs: step.timeoutMs,
+    idleTimeoutMs: step.idleTimeoutMs,
+    killSignal: step.killSignal,
+    killGracePeriodMs: step.killGracePeriodMs,
     captureOutput: step.captureOutput,
     maxOutputBytes: step.maxOutputBytes,
     pipefail: step.pipefail,
-    retry: step.retry,
+    retry: failOnFlaky && step.retry ? { ...step.retry, failOnFlaky: true } : step.retry,
+    exitCodes: step.exitCodes,
+    assertOutput: step.assertOutput,
+    thresholds: step.thresholds,
+    dependsOn: step.dependsOn,
+    inputs: step.inputs,
+    outputs: step.outputs,
+  }
+}
+
+/**
+ * Drops dependencies that are not part of this run.
+ *
+ * Dependencies outside the selected target, disabled steps, and env-gated steps are treated as
+ * satisfied so that selecting a subset never blocks the remaining steps.
+ */
+const withScheduledDependencies = (
+  step: MappedPipelineStep,
+  scheduledStepIds: ReadonlySet<string>
+): MappedPipelineStep => {
+  if (!step.dependsOn) {
+    return step
+  }
+
+  return {
+    ...step,
+    dependsOn: step.dependsOn.filter((dependencyId) => scheduledStepIds.has(dependencyId)),
   }
 }
 
@@ -9,14 +9,58 @@ export type CliOutputFormat = 'pretty' | 'json'
 export interface StepRetryPolicy {
   /** Maximum execution attempts including the first run. */
   readonly maxAttempts: number
-  /** Delay between retry attempts in milliseconds. */
+  /** Delay before the first retry in milliseconds. */
   readonly delayMs?: number
+  /** Factor applied to the delay after each retry. Defaults to 1 (fixed delay). */
+  readonly backoffMultiplier?: number
+  /** Upper bound for the retry delay in milliseconds. */
+  readonly maxDelayMs?: number
+  /** Fraction of each delay, between 0 and 1, that is randomly removed to spread retries. */
+  readonly jitter?: number
   /** When true, retries are also allowed after timeout failures. */
   readonly retryOnTimeout?: boolean
   /** When true, retries are also allowed after signal termination. */
   readonly retryOnSignal?: boolean
   /** When true, retries are also allowed after process creation failures. */
   readonly retryOnSpawnFailure?: boolean
+  /** Restricts retries after non-zero exits to these exit codes, or to `retryOnOutputPattern`. */
+  readonly retryOnExitCodes?: readonly number[]
+  /** Restricts retries after non-zero exits to output matching this regular expression. */
+  readonly retryOnOutputPattern?: string
+  /** When true, a step that passes only after a retry is reported as failed. */
+  readonly failOnFlaky?: boolean
+}
+
+/**
+ * Exit code mapping for a config step.
+ */
+export interface StepExitCodes {
+  /** Exit codes reported as `passed`. Defaults to `[0]`. */
+  readonly success?: readonly number[]
+  /** Exit codes reported as `warning`, which fails the run only with `--strict`. */
+  readonly warning?: readonly number[]
+  /** Exit codes reported as `skipped`. */
+  readonly skip?: readonly number[]
+}
+
+/**
+ * Output patterns checked after a config step exits successfully.
+ */
+export interface StepOutputAssertions {
+  /** Regular expressions that must each match the stdout or stderr output. */
+  readonly mustMatch?: readonly string[]
+  /** Regular expressions that must not match the stdout or stderr output. */
+  readonly mustNotMatch?: readonly string[]
+}
+
+/**
+ * Allowed range for one parsed step metric.
+ */
+export interface StepMetricThreshold {
+  /** Lowest allowed value. A step that reports no such metric also breaches `min`. */
+  readonly min?: number
+  /** Highest allowed value. */
+  readonly max?: number
 }
 
 /**
@@ -64,6 +108,12 @@ export interface CliConfigStep {
   readonly optional?: boolean
   /** Step timeout in milliseconds. */
   readonly timeoutMs?: number
+  /** Stops the step when it prints no stdout or stderr output for this many milliseconds. */
+  readonly idleTimeoutMs?: number
+  /** Signal name such as `SIGINT` sent to stop this step. Overrides the top-level value. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`. Overrides the top-level value. */
+  readonly killGracePeriodMs?: number
   /** Disables stdout and stderr capture for this step when false. */
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
@@ -72,8 +122,20 @@ export interface CliConfigStep {
   readonly pipefail?: boolean
   /** Retry policy for this step. */
   readonly retry?: StepRetryPolicy
+  /** Exit codes that count as success, warning, or skip instead of failure. */
+  readonly exitCodes?: StepExitCodes
+  /** Output patterns that fail the step when violated after a successful exit. */
+  readonly assertOutput?: StepOutputAssertions
+  /** Allowed ranges for parsed metrics by label, such as `warnings`; requires `output.parseMetrics`. */
+  readonly thresholds?: Readonly<Record<string, StepMetricThreshold>>
   /** Optional execution condition. */
   readonly when?: CliStepCondition
+  /** Step ids that must pass before this step starts. */
+  readonly dependsOn?: readonly string[]
+  /** Input file globs relative to the step cwd; enables result caching when set. */
+  readonly inputs?: readonly string[]
+  /** Output file globs that must be unchanged for a cache hit. */
+  readonly outputs?: readonly string[]
 }
 
 /**
@@ -90,6 +152,8 @@ export interface CiRunnerTarget {
   readonly includeStepIds?: readonly string[]
   /** Optional step id deny-list applied after include filtering. */
   readonly excludeStepIds?: readonly string[]
+  /** Enables `retry.failOnFlaky` for all selected steps when true. */
+  readonly failOnFlaky?: boolean
 }
 
 /**
@@ -102,8 +166,16 @@ export interface CiRunnerConfig {
   readonly targets?: readonly CiRunnerTarget[]
   /** Continue running after hard failures when true. */
   readonly continueOnError?: boolean
+  /** Maximum number of steps executed at the same time. Defaults to 1. */
+  readonly concurrency?: number
+  /** Total time budget for the run in milliseconds; `--max-duration` overrides it. */
+  readonly timeoutMs?: number
   /** Base environment merged into all steps. */
   readonly env?: Readonly<Record<string, string>>
+  /** Signal name sent to stop timed-out or cancelled steps. Defaults to `SIGTERM`. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`. Defaults to 5000. */
+  readonly killGracePeriodMs?: number
   /** Relative or absolute working directory for the whole pipeline. */
   readonly cwd?: string
   /** Default output behavior from config. */
@@ -118,6 +190,10 @@ export interface CiRunnerConfig {
     readonly captureOutput?: boolean
     /** Maximum captured stdout and stderr bytes per stream. */
     readonly maxOutputBytes?: number
+    /** Part of each stream kept when `maxOutputBytes` is exceeded. Defaults to `head-tail`. */
+    readonly truncateStrategy?: 'head' | 'tail' | 'head-tail'
+    /** Number of `.ci-runner/runs` log directories kept. Defaults to 10; 0 disables step logs. */
+    readonly keepRuns?: number
   }
   /** Watch-mode options for rerun filtering. */
   readonly watch?: CiRunnerWatchConfig
@@ -0,0 +1,177 @@
+import { ciRunnerConfigSchema } from './configSchema.js'
+
+/**
+ * One problem found while validating a raw config object.
+ */
+export interface ConfigIssue {
+  /** JSON path of the offending value, such as `steps[0].timeoutMS`. */
+  readonly path: string
+  /** Problem description that starts with the path. */
+  readonly message: string
+  /** Errors always fail loading; warnings fail it only in strict mode. */
+  readonly severity: 'error' | 'warning'
+}
+
+const { definitions } = ciRunnerConfigSchema
+
+const TOP_LEVEL_KEYS = Object.keys(ciRunnerConfigSchema.properties)
+const TOP_LEVEL_KEY_PATTERNS = Object.keys(ciRunnerConfigSchema.patternProperties).map(
+  (pattern) => new RegExp(pattern, 'u')
+)
+const STEP_KEYS = Object.keys(definitions.step.properties)
+const RETRY_KEYS = Object.keys(definitions.retry.properties)
+const CONDITION_KEYS = Object.keys(definitions.condition.properties)
+const EXIT_CODE_KEYS = Object.keys(definitions.exitCodes.properties)
+const OUTPUT_ASSERTION_KEYS = Object.keys(definitions.outputAssertions.properties)
+const METRIC_THRESHOLD_KEYS = Object.keys(definitions.metricThreshold.properties)
+const TARGET_KEYS = Object.keys(definitions.target.properties)
+const OUTPUT_KEYS = Object.keys(definitions.output.properties)
+const WATCH_KEYS = Object.keys(definitions.watch.properties)
+
+/**
+ * Collects config problems that the typed parsers do not report.
+ *
+ * Keys missing from the config JSON Schema are reported as warnings with a "did you mean"
+ * suggestion when a known key is close, and duplicate step ids are reported as errors. Values with
+ * the wrong type are skipped, because the parsers reject them.
+ *
+ * @param value Raw config value loaded from disk.
+ * @returns All problems in config order.
+ */
+export const validateCiRunnerConfig = (value: unknown): readonly ConfigIssue[] => {
+  const issues: ConfigIssue[] = []
+  if (!isRecord(value)) {
+    return issues
+  }
+
+  collectUnknownKeys(value, '', TOP_LEVEL_KEYS, issues, TOP_LEVEL_KEY_PATTERNS)
+
+  if (Array.isArray(value.steps)) {
+    for (const [index, step] of value.steps.entries()) {
+      collectUnknownStepKeys(step, `steps[${index}]`, issues)
+    }
+    collectDuplicateStepIds(value.steps, issues)
+  }
+
+  if (Array.isArray(value.targets)) {
+    for (const [index, target] of value.targets.entries()) {
+      collectUnknownKeys(target, `targets[${index}]`, TARGET_KEYS, issues)
+    }
+  }
+
+  collectUnknownKeys(value.output, 'output', OUTPUT_KEYS, issues)
+  collectUnknownKeys(value.watch, 'watch', WATCH_KEYS, issues)
+
+  return issues
+}
+
+const collectUnknownStepKeys = (step: unknown, path: string, issues: ConfigIssue[]): void => {
+  if (!isRecord(step)) {
+    return
+  }
+
+  collectUnknownKeys(step, path, STEP_KEYS, issues)
+  collectUnknownKeys(step.retry, `${path}.retry`, RETRY_KEYS, issues)
+  collectUnknownKeys(step.exitCodes, `${path}.exitCodes`, EXIT_CODE_KEYS, issues)
+  collectUnknownKeys(step.assertOutput, `${path}.assertOutput`, OUTPUT_ASSERTION_KEYS, issues)
+  collectUnknownKeys(step.when, `${path}.when`, CONDITION_KEYS, issues)
+
+  if (isRecord(step.thresholds)) {
+    for (const [metric, threshold] of Object.entries(step.thresholds)) {
+      collectUnknownKeys(threshold, `${path}.thresholds.${metric}`, METRIC_THRESHOLD_KEYS, issues)
+    }
+  }
+}
+
+const collectUnknownKeys = (
+  value: unknown,
+  path: string,
+  knownKeys: readonly string[],
+  issues: ConfigIssue[],
+  knownKeyPatterns: readonly RegExp[] = []
+): void => {
+  if (!isRecord(value)) {
+    return
+  }
+
+  for (const key of Object.keys(value)) {
+    if (knownKeys.includes(key) || knownKeyPatterns.some((pattern) => pattern.test(key))) {
+      continue
+    }
+
+    const keyPath = path ? `${path}.${key}` : key
+    const suggestion = findClosestKey(key, knownKeys)
+    issues.push({
+      path: keyPath,
+      message: suggestion
+        ? `${keyPath} is not a known option (did you mean "${suggestion}"?)`
+        : `${keyPath} is not a known option`,
+      severity: 'warning',
+    })
+  }
+}
+
+const collectDuplicateStepIds = (steps: readonly unknown[], issues: ConfigIssue[]): void => {
+  const firstIndexById = new Map<string, number>()
+
+  for (const [index, step] of steps.entries()) {
+    if (!isRecord(step) || typeof step.id !== 'string') {
+      continue
+    }
+
+    const firstIndex = firstIndexById.get(step.id)
+    if (firstIndex === undefined) {
+      firstIndexById.set(step.id, index)
+      continue
+    }
+
+    issues.push({
+      path: `steps[${index}].id`,
+      message: `steps[${index}].id must be unique ("${step.id}" is also used by steps[${firstIndex}])`,
+      severity: 'error',
+    })
+  }
+}
+
+/**
+ * Finds the known key with the smallest case-insensitive edit distance, if it is close enough to
+ * be a typo.
+ */
+const findClosestKey = (key: string, knownKeys: readonly string[]): string | null => {
+  const maxDistance = Math.max(2, Math.floor(key.length / 4))
+  let closestKey: string | null = null
+  let closestDistance = maxDistance + 1
+
+  for (const knownKey of knownKeys) {
+    const distance = getEditDistance(key.toLowerCase(), knownKey.toLowerCase())
+    if (distance < closestDistance) {
+      closestKey = knownKey
+      closestDistance = distance
+    }
+  }
+
+  return closestKey
+}
+
+const getEditDistance = (left: string, right: string): number => {
+  let previousRow = Array.from({ length: right.length + 1 }, (_, index) => index)
+
+  for (let leftIndex = 1; leftIndex <= left.length; leftIndex += 1) {
+    const currentRow = [leftIndex]
+    for (let rightIndex = 1; rightIndex <= right.length; rightIndex += 1) {
+      const substitutionCost = left[leftIndex - 1] === right[rightIndex - 1] ? 0 : 1
+      currentRow[rightIndex] = Math.min(
+        (previousRow[rightIndex] ?? 0) + 1,
+        (currentRow[rightIndex - 1] ?? 0) + 1,
+        (previousRow[rightIndex - 1] ?? 0) + substitutionCost
+      )
+    }
+    previousRow = currentRow
+  }
+
+  return previousRow[right.length] ?? 0
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
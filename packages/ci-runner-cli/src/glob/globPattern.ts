@@ -0,0 +1,71 @@
+/**
+ * Removes a leading `./` from a path pattern.
+ *
+ * @param pattern Raw path pattern.
+ * @returns Pattern without current-directory prefix.
+ */
+export const stripLeadingCurrentDirectory = (pattern: string): string => {
+  if (pattern.startsWith('./')) {
+    return pattern.slice(2)
+  }
+
+  return pattern
+}
+
+/**
+ * Checks whether a path pattern contains glob wildcards.
+ *
+ * @param value Path pattern.
+ * @returns True when the pattern contains `*`.
+ */
+export const containsWildcard = (value: string): boolean => {
+  return value.includes('*')
+}
+
+/**
+ * Compiles a forward-slash glob pattern into an anchored regular expression.
+ *
+ * Supports `*` within one path segment, `**` across segments, and `**` followed by a slash
+ * for zero or more leading directories.
+ *
+ * @param pattern Normalized glob pattern.
+ * @returns Regular expression matching full normalized paths.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let regex = '^'
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const character = pattern[index]
+    if (!character) {
+      continue
+    }
+
+    if (character === '*') {
+      const nextCharacter = pattern[index + 1]
+      const afterNextCharacter = pattern[index + 2]
+      if (nextCharacter === '*' && afterNextCharacter === '/') {
+        regex += '(?:.*/)?'
+        index += 2
+        continue
+      }
+
+      if (nextCharacter === '*') {
+        regex += '.*'
+        index += 1
+        continue
+      }
+
+      regex += '[^/]*'
+      continue
+    }
+
+    regex += escapeRegExpCharacter(character)
+  }
+
+  regex += '$'
+  return new RegExp(regex)
+}
+
+const escapeRegExpCharacter = (character: string): string => {
+  return /[\\^$.*+?()[\]{}|]/.test(character) ? `\\${character}` : character
+}
@@ -8,8 +8,14 @@ export type {
   CliOutputFormat,
   CliStepCondition,
 } from './config/types.js'
+export type {
+  DefinedCiRunnerConfig,
+  DefinedConfigStep,
+  DefinedConfigTarget,
+} from './config/defineConfig.js'
+export { defineConfig } from './config/defineConfig.js'
 export { loadCiRunnerConfig } from './config/loadConfig.js'
 export { mapConfigToRun } from './config/mapConfigToRun.js'
 
 export type { RunCliPipelineOptions } from './runPipeline.js'
-export { runCliPipeline } from './runPipeline.js'
+export { CANCELLED_EXIT_CODE, runCliPipeline } from './runPipeline.js'
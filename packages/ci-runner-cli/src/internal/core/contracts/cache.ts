@@ -0,0 +1,45 @@
+import type { ParsedStepMetrics } from './parser.js'
+import type { PipelineStep, StepExecutionOutput, StepResult } from './step.js'
+
+/**
+ * Stored data of a passing step execution.
+ */
+export interface CachedStepResult {
+  /** Captured process output from the cached execution. */
+  readonly output: StepExecutionOutput
+  /** Structured metrics parsed from the cached execution. */
+  readonly metrics: ParsedStepMetrics | null
+  /** Duration of the cached execution in milliseconds. */
+  readonly durationMs: number
+}
+
+/**
+ * Storage contract for skipping steps whose inputs did not change.
+ */
+export interface StepResultCache {
+  /**
+   * Computes the cache key for a step before it runs.
+   *
+   * @param step Step definition.
+   * @returns Cache key, or null when the step is not cacheable.
+   */
+  getKey(step: PipelineStep): Promise<string | null>
+
+  /**
+   * Reads a stored result for a cache key.
+   *
+   * @param step Step definition.
+   * @param key Cache key computed before execution.
+   * @returns Stored result, or null on a cache miss.
+   */
+  read(step: PipelineStep, key: string): Promise<CachedStepResult | null>
+
+  /**
+   * Stores a step result that passed on its first attempt.
+   *
+   * @param step Step definition.
+   * @param key Cache key computed before execution.
+   * @param result Passing step result.
+   */
+  write(step: PipelineStep, key: string, result: StepResult): Promise<void>
+}
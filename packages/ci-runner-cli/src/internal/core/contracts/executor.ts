@@ -8,7 +8,20 @@ export type CommandTerminationKind =
   | 'exited_nonzero'
   | 'terminated_by_signal'
   | 'timed_out'
+  | 'idle_timeout'
   | 'spawn_failed'
+  | 'cancelled'
+  | 'not_started'
+
+/**
+ * Process output stream name.
+ */
+export type CommandOutputStream = 'stdout' | 'stderr'
+
+/**
+ * Part of the output kept when captured output exceeds its size limit.
+ */
+export type OutputTruncateStrategy = 'head' | 'tail' | 'head-tail'
 
 /**
  * Text-independent command termination details.
@@ -22,6 +35,8 @@ export interface CommandTermination {
   readonly signal: NodeJS.Signals | null
   /** Operating-system error code when process creation failed. */
   readonly errorCode?: string
+  /** Last signal sent to stop the process tree: the kill signal, or `SIGKILL` after the grace period. */
+  readonly killSignal?: NodeJS.Signals
 }
 
 /**
@@ -36,12 +51,40 @@ export interface CommandExecutionRequest {
   readonly env: NodeJS.ProcessEnv
   /** Optional process timeout in milliseconds. */
   readonly timeoutMs?: number
+  /** Stops the process when it writes no stdout or stderr output for this many milliseconds. */
+  readonly idleTimeoutMs?: number
+  /** Signal sent to the process tree on timeout or cancellation. Defaults to `SIGTERM`. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds between the kill signal and `SIGKILL`. Defaults to 5000. */
+  readonly killGracePeriodMs?: number
   /** Disables stdout and stderr capture when false. */
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
   readonly maxOutputBytes?: number
+  /** Part of each stream kept when `maxOutputBytes` is exceeded. Defaults to `head-tail`. */
+  readonly truncateStrategy?: OutputTruncateStrategy
+  /** Appends the complete stdout and stderr to this file, independent of the capture limits. */
+  readonly logFile?: string
   /** Makes shell pipelines fail when any command in the pipeline fails. */
   readonly pipefail?: boolean
+  /** Samples CPU time and peak memory of the process tree into `resourceUsage` when true. */
+  readonly measureResourceUsage?: boolean
+  /** Stops the command and its process tree when aborted. */
+  readonly signal?: AbortSignal
+  /** Receives decoded output as it arrives, independent of `captureOutput` and size limits. */
+  readonly onOutput?: (stream: CommandOutputStream, chunk: string) => void
+}
+
+/**
+ * Resource usage of a command and all of its descendant processes.
+ */
+export interface CommandResourceUsage {
+  /** CPU time spent in user mode in milliseconds. */
+  readonly cpuUserMs: number
+  /** CPU time spent in kernel mode in milliseconds. */
+  readonly cpuSystemMs: number
+  /** Highest sampled resident memory of all processes together, in bytes. */
+  readonly peakRssBytes: number
 }
 
 /**
@@ -56,6 +99,8 @@ export interface CommandExecutionResult extends StepExecutionOutput {
   readonly durationMs: number
   /** True when command completed successfully. */
   readonly successful: boolean
+  /** Sampled resource usage of the process tree; omitted where it cannot be measured. */
+  readonly resourceUsage?: CommandResourceUsage
   /** Original error object for spawn-level failures. */
   readonly error?: unknown
 }
@@ -1,3 +1,4 @@
+import type { CommandOutputStream } from './executor.js'
 import type { PipelineRunResult } from './run.js'
 import type { PipelineStep, StepResult } from './step.js'
 
@@ -20,6 +21,17 @@ export interface PipelineReporter {
    */
   onStepStart?(step: PipelineStep, index: number): Promise<void> | void
 
+  /**
+   * Called synchronously for each output chunk while a step is running.
+   *
+   * Chunks are not split at line boundaries, and output of parallel steps may interleave.
+   *
+   * @param step Step definition.
+   * @param stream Output stream that produced the chunk.
+   * @param chunk Decoded output text.
+   */
+  onStepOutput?(step: PipelineStep, stream: CommandOutputStream, chunk: string): void
+
   /**
    * Called after a step completes.
    *
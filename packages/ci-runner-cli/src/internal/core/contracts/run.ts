@@ -1,4 +1,5 @@
-import type { CommandExecutor } from './executor.js'
+import type { StepResultCache } from './cache.js'
+import type { CommandExecutor, OutputTruncateStrategy } from './executor.js'
 import type { StepParserResolver } from './parser.js'
 import type { PipelineReporter } from './reporter.js'
 import type { PipelineStep, StepResult } from './step.js'
@@ -7,16 +8,28 @@ import type { PipelineStep, StepResult } from './step.js'
  * Summary counts for one pipeline run.
  */
 export interface PipelineSummary {
-  /** Total number of executed steps. */
+  /** Total number of reported steps, including steps that did not run. */
   readonly total: number
   /** Number of passed steps. */
   readonly passed: number
+  /** Number of steps that exited with a `warning` exit code. */
+  readonly warnings: number
   /** Number of failed steps. */
   readonly failed: number
-  /** Number of skipped steps. */
+  /** Number of optional steps that failed without failing the run. */
+  readonly failedAllowed: number
+  /** Number of steps that were executed but reported as skipped by their exit code. */
   readonly skipped: number
   /** Number of timed out steps. */
   readonly timedOut: number
+  /** Number of steps that passed only after a retry, including steps failed for being flaky. */
+  readonly flaky: number
+  /** Number of steps not run because a dependency did not pass, fail-fast, or the budget ran out. */
+  readonly notRun: number
+  /** Number of steps stopped while running or never started because the run was cancelled. */
+  readonly cancelled: number
+  /** True when the run exceeded its `timeoutMs` budget and was stopped early. */
+  readonly budgetExceeded: boolean
   /** Total pipeline runtime in milliseconds. */
   readonly durationMs: number
 }
@@ -31,6 +44,8 @@ export interface PipelineRunResult {
   readonly summary: PipelineSummary
   /** Process-style exit code derived from result state. */
   readonly exitCode: 0 | 1
+  /** True when the run was stopped through `PipelineRunOptions.signal`. */
+  readonly aborted: boolean
   /** Run start timestamp in Unix milliseconds. */
   readonly startedAt: number
   /** Run finish timestamp in Unix milliseconds. */
@@ -41,7 +56,7 @@ export interface PipelineRunResult {
  * Runtime options used by the pipeline runner.
  */
 export interface PipelineRunOptions {
-  /** Steps to execute in order. */
+  /** Steps to execute in config order, constrained by their dependencies. */
   readonly steps: readonly PipelineStep[]
   /** Command executor implementation. */
   readonly executor: CommandExecutor
@@ -49,6 +64,8 @@ export interface PipelineRunOptions {
   readonly reporters?: readonly PipelineReporter[]
   /** Optional parser resolver for tool-specific metrics. */
   readonly parserResolver?: StepParserResolver
+  /** Optional cache used to skip steps whose inputs did not change. */
+  readonly cache?: StepResultCache
   /** Default working directory when steps do not provide one. */
   readonly cwd?: string
   /** Base environment merged into each step execution. */
@@ -57,10 +74,37 @@ export interface PipelineRunOptions {
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
   readonly maxOutputBytes?: number
+  /** Part of each stream kept when `maxOutputBytes` is exceeded. Defaults to `head-tail`. */
+  readonly truncateStrategy?: OutputTruncateStrategy
+  /**
+   * Directory that receives the complete output of each executed step as `<stepId>.log`.
+   *
+   * Captured output is then limited to an in-memory excerpt when `maxOutputBytes` is not set.
+   */
+  readonly logDirectory?: string
+  /** Reports `resourceUsage` of each step when true; sampling costs CPU time while steps run. */
+  readonly measureResourceUsage?: boolean
+  /** Signal sent to stop timed-out or cancelled steps. Defaults to `SIGTERM`. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`. Defaults to 5000. */
+  readonly killGracePeriodMs?: number
+  /** Fails the run when a step ends with status `warning`. */
+  readonly strict?: boolean
   /** Continue after non-optional failures when true. */
   readonly continueOnError?: boolean
+  /** Maximum number of steps executed at the same time. Defaults to 1. */
+  readonly concurrency?: number
+  /**
+   * Total time budget for the run in milliseconds. When it runs out, running steps are cancelled
+   * with reason `budget_exceeded`, unstarted steps are reported as `not_run`, and the run fails.
+   */
+  readonly timeoutMs?: number
+  /** Cancels the run when aborted; running steps are stopped and pending steps are cancelled. */
+  readonly signal?: AbortSignal
   /** Time source injection for deterministic tests. */
   readonly now?: () => number
   /** Sleep function injection for deterministic retry tests. */
   readonly sleep?: (durationMs: number) => Promise<void>
+  /** Random source injection for deterministic retry jitter, returning values in [0, 1). */
+  readonly random?: () => number
 }
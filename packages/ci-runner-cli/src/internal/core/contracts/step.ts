@@ -1,10 +1,18 @@
 import type { ParsedStepMetrics } from './parser.js'
-import type { CommandTermination } from './executor.js'
+import type { CommandResourceUsage, CommandTermination } from './executor.js'
 
 /**
  * Terminal status of a pipeline step.
  */
-export type StepStatus = 'passed' | 'failed' | 'skipped' | 'timed_out'
+export type StepStatus =
+  | 'passed'
+  | 'warning'
+  | 'failed'
+  | 'failed_allowed'
+  | 'skipped'
+  | 'timed_out'
+  | 'not_run'
+  | 'cancelled'
 
 /**
  * Failure or skip reason assigned to a step result.
@@ -14,7 +22,17 @@ export type StepResultReason =
   | 'command_signaled'
   | 'command_spawn_failed'
   | 'command_timeout'
+  | 'command_idle_timeout'
   | 'optional_step_failed'
+  | 'exit_code_warning'
+  | 'exit_code_skipped'
+  | 'dependency_failed'
+  | 'fail_fast'
+  | 'pipeline_cancelled'
+  | 'budget_exceeded'
+  | 'flaky'
+  | 'output_assertion_failed'
+  | 'metric_threshold_exceeded'
 
 /**
  * Retry behavior for a step.
@@ -22,14 +40,82 @@ export type StepResultReason =
 export interface StepRetryPolicy {
   /** Maximum execution attempts including the first run. */
   readonly maxAttempts: number
-  /** Delay between retry attempts in milliseconds. */
+  /** Delay before the first retry in milliseconds. */
   readonly delayMs?: number
-  /** When true, retries are also allowed after timeout failures. */
+  /** Factor applied to the delay after each retry. Defaults to 1 (fixed delay). */
+  readonly backoffMultiplier?: number
+  /** Upper bound for the retry delay in milliseconds. */
+  readonly maxDelayMs?: number
+  /** Fraction of each delay, between 0 and 1, that is randomly removed to spread retries. */
+  readonly jitter?: number
+  /** When true, retries are also allowed after timeout and idle timeout failures. */
   readonly retryOnTimeout?: boolean
   /** When true, retries are also allowed after signal termination. */
   readonly retryOnSignal?: boolean
   /** When true, retries are also allowed after process creation failures. */
   readonly retryOnSpawnFailure?: boolean
+  /** Restricts retries after non-zero exits to these exit codes, or to `retryOnOutputPattern`. */
+  readonly retryOnExitCodes?: readonly number[]
+  /** Restricts retries after non-zero exits to output matching this regular expression. */
+  readonly retryOnOutputPattern?: string
+  /** When true, a step that passes only after a retry is reported as failed. */
+  readonly failOnFlaky?: boolean
+}
+
+/**
+ * Maps process exit codes to step outcomes other than failure.
+ */
+export interface StepExitCodes {
+  /** Exit codes reported as `passed`. Defaults to `[0]`. */
+  readonly success?: readonly number[]
+  /** Exit codes reported as `warning`, which fails the run only in strict mode. */
+  readonly warning?: readonly number[]
+  /** Exit codes reported as `skipped`. */
+  readonly skip?: readonly number[]
+}
+
+/**
+ * Output patterns checked after a command exits successfully.
+ */
+export interface StepOutputAssertions {
+  /** Regular expressions (multiline mode) that must each match stdout or stderr. */
+  readonly mustMatch?: readonly string[]
+  /** Regular expressions (multiline mode) that must not match stdout or stderr. */
+  readonly mustNotMatch?: readonly string[]
+}
+
+/**
+ * Output assertion that failed a step.
+ */
+export interface StepOutputAssertionFailure {
+  /** Assertion list that contains the violated pattern. */
+  readonly assertion: 'mustMatch' | 'mustNotMatch'
+  /** Source of the violated regular expression. */
+  readonly pattern: string
+  /** Output line that matched a `mustNotMatch` pattern. */
+  readonly line?: string
+}
+
+/**
+ * Allowed range for one parsed step metric.
+ */
+export interface StepMetricThreshold {
+  /** Lowest allowed value. A step that reports no such metric also breaches `min`. */
+  readonly min?: number
+  /** Highest allowed value. */
+  readonly max?: number
+}
+
+/**
+ * Metric threshold that failed a step.
+ */
+export interface StepMetricThresholdBreach {
+  /** Label of the checked metric. */
+  readonly metric: string
+  /** Parsed numeric value, or null when the step reported no such metric. */
+  readonly value: number | null
+  /** Threshold that the value violated. */
+  readonly threshold: StepMetricThreshold
 }
 
 /**
@@ -46,10 +132,16 @@ export interface PipelineStep {
   readonly cwd?: string
   /** Optional environment override merged with process env. */
   readonly env?: Readonly<Record<string, string>>
-  /** Optional steps become skipped when execution fails. */
+  /** Optional steps end as `failed_allowed` when execution fails. */
   readonly optional?: boolean
   /** Optional timeout in milliseconds for one attempt. */
   readonly timeoutMs?: number
+  /** Optional limit in milliseconds for one attempt without stdout or stderr output. */
+  readonly idleTimeoutMs?: number
+  /** Signal sent to stop the step; overrides the pipeline default. */
+  readonly killSignal?: NodeJS.Signals
+  /** Milliseconds before a stopped step receives `SIGKILL`; overrides the pipeline default. */
+  readonly killGracePeriodMs?: number
   /** Disables stdout and stderr capture when false. */
   readonly captureOutput?: boolean
   /** Maximum captured stdout and stderr bytes per stream. */
@@ -58,6 +150,18 @@ export interface PipelineStep {
   readonly pipefail?: boolean
   /** Retry policy for transient failures. */
   readonly retry?: StepRetryPolicy
+  /** Exit codes that count as success, warning, or skip instead of failure. */
+  readonly exitCodes?: StepExitCodes
+  /** Output patterns that fail the step when violated after a successful exit. */
+  readonly assertOutput?: StepOutputAssertions
+  /** Allowed ranges for parsed metrics by label, checked after a successful exit. */
+  readonly thresholds?: Readonly<Record<string, StepMetricThreshold>>
+  /** Step ids that must pass before this step starts. */
+  readonly dependsOn?: readonly string[]
+  /** Input file globs that make the step cacheable when set. */
+  readonly inputs?: readonly string[]
+  /** Output file globs that must be unchanged for a cache hit. */
+  readonly outputs?: readonly string[]
 }
 
 /**
@@ -76,6 +180,22 @@ export interface StepExecutionOutput {
   readonly outputTruncated?: boolean
 }
 
+/**
+ * Outcome of one execution attempt of a step.
+ */
+export interface StepAttempt {
+  /** One-based attempt number. */
+  readonly attempt: number
+  /** Attempt duration in milliseconds as measured by the executor. */
+  readonly durationMs: number
+  /** Text-independent termination details of this attempt. */
+  readonly termination: CommandTermination
+  /** Captured output of this attempt, limited to the last bytes of each stream. */
+  readonly output: StepExecutionOutput
+  /** Sampled resource usage of this attempt, when available. */
+  readonly resourceUsage?: CommandResourceUsage
+}
+
 /**
  * Result object returned for each completed pipeline step.
  */
@@ -88,10 +208,16 @@ export interface StepResult {
   readonly status: StepStatus
   /** Final reason for non-success outcomes. */
   readonly reason?: StepResultReason
+  /** Step id that prevented this step from running, if any. */
+  readonly blockedBy?: string
   /** Number of attempts executed for this step. */
   readonly attempts: number
   /** Indicates whether at least one retry happened. */
   readonly retried: boolean
+  /** True when the step passed only after a retry. */
+  readonly flaky?: boolean
+  /** True when the result was restored from the step cache without execution. */
+  readonly cacheHit?: boolean
   /** Step start timestamp in Unix milliseconds. */
   readonly startedAt: number
   /** Step finish timestamp in Unix milliseconds. */
@@ -102,6 +228,16 @@ export interface StepResult {
   readonly output: StepExecutionOutput
   /** Text-independent termination details from the last execution attempt. */
   readonly termination: CommandTermination
+  /** Every executed attempt in order; empty when the step did not execute. */
+  readonly attemptHistory: readonly StepAttempt[]
+  /** Violated output assertion when the reason is `output_assertion_failed`. */
+  readonly outputAssertionFailure?: StepOutputAssertionFailure
+  /** Breached metric threshold when the reason is `metric_threshold_exceeded`. */
+  readonly metricThresholdBreach?: StepMetricThresholdBreach
+  /** File holding the complete output of every attempt, when step logs are written to disk. */
+  readonly logFile?: string
+  /** CPU time summed over all attempts and the highest peak resident memory, when available. */
+  readonly resourceUsage?: CommandResourceUsage
   /** Optional structured metrics parsed from process output. */
   readonly metrics: ParsedStepMetrics | null
 }
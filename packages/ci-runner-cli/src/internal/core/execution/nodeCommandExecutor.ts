@@ -1,11 +1,24 @@
 import { spawn, type ChildProcess } from 'node:child_process'
+import { createWriteStream, type WriteStream } from 'node:fs'
+import { mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { StringDecoder } from 'node:string_decoder'
 
 import type {
   CommandTermination,
   CommandExecutionRequest,
   CommandExecutionResult,
   CommandExecutor,
+  CommandOutputStream,
 } from '../contracts/executor.js'
+import { createOutputCapture } from './outputCapture.js'
+import { startProcessTreeUsageSampler } from './processTreeUsage.js'
+
+/** Signal sent first when a command is stopped. */
+const DEFAULT_KILL_SIGNAL: NodeJS.Signals = 'SIGTERM'
+
+/** Time a stopped command gets to exit before its process tree receives `SIGKILL`. */
+const DEFAULT_KILL_GRACE_PERIOD_MS = 5000
 
 /**
  * Creates a Node.js shell command executor.
@@ -16,52 +29,104 @@ export const createNodeCommandExecutor = (): CommandExecutor => {
   return async (request: CommandExecutionRequest): Promise<CommandExecutionResult> => {
     const startedAt = Date.now()
 
+    if (request.signal?.aborted) {
+      return createCancelledBeforeStartResult()
+    }
+
+    const logStream = request.logFile ? await openLogFile(request.logFile) : null
+
+    // The abort listener is only added once the process runs, so check again after the await.
+    if (request.signal?.aborted) {
+      await closeLogFile(logStream)
+      return createCancelledBeforeStartResult()
+    }
+
     return await new Promise<CommandExecutionResult>((resolve) => {
       const env: NodeJS.ProcessEnv = { ...process.env, ...request.env }
       const child = createChildProcess(request.command, request.pipefail, request.cwd, env)
+      const usageSampler = request.measureResourceUsage
+        ? startProcessTreeUsageSampler(child.pid)
+        : null
 
-      let stdout = ''
-      let stderr = ''
-      let outputTruncated = false
+      const stdout = createOutputCapture(request)
+      const stderr = createOutputCapture(request)
       let timedOut = false
+      let idleTimedOut = false
+      let cancelled = false
       let error: unknown
       let closed = false
       let forceKillHandle: NodeJS.Timeout | null = null
+      let killSignal: NodeJS.Signals | undefined
+
+      const terminate = (): void => {
+        if (forceKillHandle) {
+          return
+        }
+
+        killSignal = request.killSignal ?? DEFAULT_KILL_SIGNAL
+        terminateProcessTree(child, killSignal)
+        forceKillHandle = setTimeout(() => {
+          killSignal = 'SIGKILL'
+          terminateProcessTree(child, killSignal)
+        }, request.killGracePeriodMs ?? DEFAULT_KILL_GRACE_PERIOD_MS)
+      }
 
       const timeoutHandle =
         typeof request.timeoutMs === 'number' && request.timeoutMs > 0
           ? setTimeout(() => {
-              timedOut = true
-              terminateProcessTree(child, 'SIGTERM')
-              forceKillHandle = setTimeout(() => {
-                terminateProcessTree(child, 'SIGKILL')
-              }, 5000)
+              if (!cancelled) {
+                timedOut = true
+              }
+              terminate()
             }, request.timeoutMs)
           : null
 
+      let idleTimeoutHandle: NodeJS.Timeout | null = null
+      const resetIdleTimeout = (): void => {
+        if (typeof request.idleTimeoutMs !== 'number' || request.idleTimeoutMs <= 0) {
+          return
+        }
+
+        if (idleTimeoutHandle) {
+          clearTimeout(idleTimeoutHandle)
+        }
+        idleTimeoutHandle = setTimeout(() => {
+          if (!cancelled && !timedOut) {
+            timedOut = true
+            idleTimedOut = true
+          }
+          terminate()
+        }, request.idleTimeoutMs)
+      }
+      resetIdleTimeout()
+
+      const onAbort = (): void => {
+        if (!timedOut) {
+          cancelled = true
+        }
+        terminate()
+      }
+      request.signal?.addEventListener('abort', onAbort, { once: true })
+
+      const forwardStdout = createOutputForwarder('stdout', request.onOutput)
+      const forwardStderr = createOutputForwarder('stderr', request.onOutput)
+      const writeLog = createLogWriter(logStream, child)
+
       if (child.stdout) {
         child.stdout.on('data', (chunk: Buffer) => {
-          const captured = captureChunk(
-            stdout,
-            chunk,
-            request.captureOutput,
-            request.maxOutputBytes
-          )
-          stdout = captured.output
-          outputTruncated ||= captured.truncated
+          resetIdleTimeout()
+          forwardStdout.write(chunk)
+          writeLog(chunk)
+          stdout.write(chunk)
         })
       }
 
       if (child.stderr) {
         child.stderr.on('data', (chunk: Buffer) => {
-          const captured = captureChunk(
-            stderr,
-            chunk,
-            request.captureOutput,
-            request.maxOutputBytes
-          )
-          stderr = captured.output
-          outputTruncated ||= captured.truncated
+          resetIdleTimeout()
+          forwardStderr.write(chunk)
+          writeLog(chunk)
+          stderr.write(chunk)
         })
       }
 
@@ -78,26 +143,42 @@ export const createNodeCommandExecutor = (): CommandExecutor => {
         if (timeoutHandle) {
           clearTimeout(timeoutHandle)
         }
+        if (idleTimeoutHandle) {
+          clearTimeout(idleTimeoutHandle)
+        }
         if (forceKillHandle) {
           clearTimeout(forceKillHandle)
         }
+        request.signal?.removeEventListener('abort', onAbort)
+        forwardStdout.end()
+        forwardStderr.end()
 
         const durationMs = Date.now() - startedAt
-        const termination = createTermination(timedOut, exitCode, signal, error)
+        const termination = {
+          ...createTermination(timedOut, idleTimedOut, cancelled, exitCode, signal, error),
+          ...(killSignal ? { killSignal } : {}),
+        }
         const successful = termination.kind === 'succeeded'
+        const capturedStdout = stdout.read()
+        const capturedStderr = stderr.read()
 
-        resolve({
-          successful,
-          timedOut,
-          durationMs,
-          exitCode,
-          signal,
-          termination,
-          stdout,
-          stderr,
-          outputTruncated,
-          error,
-        })
+        void Promise.all([closeLogFile(logStream), usageSampler?.stop()]).then(
+          ([, resourceUsage]) => {
+            resolve({
+              successful,
+              timedOut,
+              durationMs,
+              exitCode,
+              signal,
+              termination,
+              stdout: capturedStdout.text,
+              stderr: capturedStderr.text,
+              outputTruncated: capturedStdout.truncated || capturedStderr.truncated,
+              error,
+              ...(resourceUsage ? { resourceUsage } : {}),
+            })
+          }
+        )
       })
     })
   }
@@ -136,43 +217,113 @@ const terminateProcessTree = (child: ChildProcess, signal: NodeJS.Signals): void
   child.kill(signal)
 }
 
-const captureChunk = (
-  output: string,
-  chunk: Buffer,
-  captureOutput: boolean | undefined,
-  maxOutputBytes: number | undefined
-): { readonly output: string; readonly truncated: boolean } => {
-  if (captureOutput === false) {
-    return { output, truncated: false }
+/**
+ * Decodes chunks for an output listener without splitting multi-byte characters.
+ */
+const createOutputForwarder = (
+  stream: CommandOutputStream,
+  onOutput: CommandExecutionRequest['onOutput']
+): { readonly write: (chunk: Buffer) => void; readonly end: () => void } => {
+  if (!onOutput) {
+    return { write: () => undefined, end: () => undefined }
+  }
+
+  const decoder = new StringDecoder('utf8')
+  const emit = (text: string): void => {
+    if (text.length > 0) {
+      onOutput(stream, text)
+    }
+  }
+
+  return {
+    write: (chunk) => {
+      emit(decoder.write(chunk))
+    },
+    end: () => {
+      emit(decoder.end())
+    },
+  }
+}
+
+/**
+ * Opens a log file for appending, creating its directory when needed.
+ *
+ * Log failures never fail the command; output is then only kept in memory.
+ */
+const openLogFile = async (logFile: string): Promise<WriteStream | null> => {
+  try {
+    await mkdir(dirname(logFile), { recursive: true })
+  } catch {
+    return null
   }
 
-  if (typeof maxOutputBytes !== 'number' || maxOutputBytes < 0) {
-    return { output: output + chunk.toString('utf8'), truncated: false }
+  const logStream = createWriteStream(logFile, { flags: 'a' })
+  logStream.on('error', () => undefined)
+  return logStream
+}
+
+/**
+ * Appends output chunks to the log file and pauses the child's output streams while the file
+ * stream is over its buffer limit, so a slow disk cannot make buffered output grow without bound.
+ */
+const createLogWriter = (
+  logStream: WriteStream | null,
+  child: ChildProcess
+): ((chunk: Buffer) => void) => {
+  if (!logStream) {
+    return () => undefined
   }
 
-  const remainingBytes = maxOutputBytes - Buffer.byteLength(output)
-  if (remainingBytes <= 0) {
-    return { output, truncated: true }
+  let paused = false
+  const resume = (): void => {
+    if (!paused) {
+      return
+    }
+
+    paused = false
+    child.stdout?.resume()
+    child.stderr?.resume()
   }
 
-  if (chunk.byteLength <= remainingBytes) {
-    return { output: output + chunk.toString('utf8'), truncated: false }
+  // A failed log stream never drains; keep the command running with output kept in memory.
+  logStream.once('error', resume)
+
+  return (chunk) => {
+    if (logStream.destroyed || logStream.write(chunk) || paused) {
+      return
+    }
+
+    paused = true
+    child.stdout?.pause()
+    child.stderr?.pause()
+    logStream.once('drain', resume)
   }
+}
 
-  return {
-    output: output + chunk.subarray(0, remainingBytes).toString('utf8'),
-    truncated: true,
+const closeLogFile = (logStream: WriteStream | null): Promise<void> => {
+  if (!logStream) {
+    return Promise.resolve()
   }
+
+  return new Promise((resolve) => {
+    logStream.end(resolve)
+  })
 }
 
 const createTermination = (
   timedOut: boolean,
+  idleTimedOut: boolean,
+  cancelled: boolean,
   exitCode: number | null,
   signal: NodeJS.Signals | null,
   error: unknown
 ): CommandTermination => {
   if (timedOut) {
-    return { kind: 'timed_out', exitCode, signal }
+    return { kind: idleTimedOut ? 'idle_timeout' : 'timed_out', exitCode, signal }
+  }
+
+  if (cancelled) {
+    return { kind: 'cancelled', exitCode, signal }
   }
 
   if (error !== undefined) {
@@ -195,6 +346,19 @@ const createTermination = (
   return { kind: 'exited_nonzero', exitCode, signal }
 }
 
+const createCancelledBeforeStartResult = (): CommandExecutionResult => {
+  return {
+    successful: false,
+    timedOut: false,
+    durationMs: 0,
+    exitCode: null,
+    signal: null,
+    termination: { kind: 'cancelled', exitCode: null, signal: null },
+    stdout: '',
+    stderr: '',
+  }
+}
+
 const getErrorCode = (error: unknown): string | undefined => {
   if (typeof error !== 'object' || error === null || !('code' in error)) {
     return undefined
@@ -0,0 +1,194 @@
+import type { OutputTruncateStrategy } from '../contracts/executor.js'
+
+/** Strategy used when a size limit is set without an explicit strategy. */
+const DEFAULT_TRUNCATE_STRATEGY: OutputTruncateStrategy = 'head-tail'
+
+/**
+ * Options for capturing one output stream.
+ */
+export interface OutputCaptureOptions {
+  /** Discards all output when false. */
+  readonly captureOutput?: boolean
+  /** Maximum retained bytes; unlimited when omitted or negative. */
+  readonly maxOutputBytes?: number
+  /** Part of the output kept once the limit is reached. Defaults to `head-tail`. */
+  readonly truncateStrategy?: OutputTruncateStrategy
+}
+
+/**
+ * Captured text of one output stream.
+ */
+export interface CapturedOutput {
+  /** Retained output, including a truncation marker when bytes were dropped. */
+  readonly text: string
+  /** True when at least one byte was dropped. */
+  readonly truncated: boolean
+  /** Number of dropped bytes. */
+  readonly droppedBytes: number
+}
+
+/**
+ * Incremental capture of one output stream.
+ */
+export interface OutputCapture {
+  /** Adds a chunk in constant time relative to the output captured so far. */
+  write(chunk: Buffer): void
+  /** Decodes the retained output. */
+  read(): CapturedOutput
+}
+
+/**
+ * Creates a stream capture that keeps chunk buffers and running byte counters.
+ *
+ * `head` keeps the first bytes, `tail` the last bytes, and `head-tail` splits the limit between
+ * both ends. Dropped bytes are replaced by a marker line stating their count.
+ *
+ * @param options Capture options.
+ * @returns Output capture.
+ */
+export const createOutputCapture = (options: OutputCaptureOptions): OutputCapture => {
+  if (options.captureOutput === false) {
+    return {
+      write: () => undefined,
+      read: () => ({ text: '', truncated: false, droppedBytes: 0 }),
+    }
+  }
+
+  const limit =
+    typeof options.maxOutputBytes === 'number' && options.maxOutputBytes >= 0
+      ? Math.floor(options.maxOutputBytes)
+      : Number.POSITIVE_INFINITY
+  const strategy = options.truncateStrategy ?? DEFAULT_TRUNCATE_STRATEGY
+  const headLimit = getHeadLimit(limit, strategy)
+  const tailLimit = Number.isFinite(limit) ? limit - headLimit : 0
+
+  const headChunks: Buffer[] = []
+  let headBytes = 0
+  let tailChunks: Buffer[] = []
+  let tailStart = 0
+  let tailBytes = 0
+  let droppedBytes = 0
+
+  const dropTailOverflow = (): void => {
+    while (tailBytes > tailLimit) {
+      const firstChunk = tailChunks[tailStart]
+      if (!firstChunk) {
+        return
+      }
+
+      const excessBytes = tailBytes - tailLimit
+      if (firstChunk.byteLength <= excessBytes) {
+        tailStart += 1
+        tailBytes -= firstChunk.byteLength
+        droppedBytes += firstChunk.byteLength
+        continue
+      }
+
+      tailChunks[tailStart] = firstChunk.subarray(excessBytes)
+      tailBytes -= excessBytes
+      droppedBytes += excessBytes
+    }
+
+    // Compact occasionally so dropped chunks can be garbage collected.
+    if (tailStart > 1024 && tailStart * 2 > tailChunks.length) {
+      tailChunks = tailChunks.slice(tailStart)
+      tailStart = 0
+    }
+  }
+
+  return {
+    write: (chunk) => {
+      let remaining = chunk
+
+      if (headBytes < headLimit) {
+        const headPart = remaining.subarray(0, headLimit - headBytes)
+        headChunks.push(headPart)
+        headBytes += headPart.byteLength
+        remaining = remaining.subarray(headPart.byteLength)
+      }
+
+      if (remaining.byteLength === 0) {
+        return
+      }
+
+      if (tailLimit <= 0) {
+        droppedBytes += remaining.byteLength
+        return
+      }
+
+      tailChunks.push(remaining)
+      tailBytes += remaining.byteLength
+      dropTailOverflow()
+    },
+    read: () => {
+      const headBuffer = Buffer.concat(headChunks)
+      const tailBuffer = Buffer.concat(tailChunks.slice(tailStart))
+
+      if (droppedBytes === 0) {
+        const text = `${headBuffer.toString('utf8')}${tailBuffer.toString('utf8')}`
+        return { text, truncated: false, droppedBytes }
+      }
+
+      // Cut points may fall inside a multi-byte character; drop its pieces instead of decoding
+      // them as U+FFFD.
+      const headEnd = headBuffer.byteLength - countIncompleteTrailingBytes(headBuffer)
+      const tailStartOffset = countLeadingContinuationBytes(tailBuffer)
+      const head = headBuffer.subarray(0, headEnd).toString('utf8')
+      const tail = tailBuffer.subarray(tailStartOffset).toString('utf8')
+      const totalDroppedBytes = droppedBytes + headBuffer.byteLength - headEnd + tailStartOffset
+
+      const separator = head.length > 0 && !head.endsWith('\n') ? '\n' : ''
+      const marker = `... [${totalDroppedBytes} bytes truncated] ...\n`
+
+      return {
+        text: `${head}${separator}${marker}${tail}`,
+        truncated: true,
+        droppedBytes: totalDroppedBytes,
+      }
+    },
+  }
+}
+
+const getHeadLimit = (limit: number, strategy: OutputTruncateStrategy): number => {
+  if (!Number.isFinite(limit) || strategy === 'head') {
+    return limit
+  }
+
+  return strategy === 'tail' ? 0 : Math.floor(limit / 2)
+}
+
+/**
+ * Counts the bytes of a UTF-8 character that is cut off at the end of the buffer.
+ */
+const countIncompleteTrailingBytes = (buffer: Buffer): number => {
+  for (let offset = 1; offset <= Math.min(3, buffer.byteLength); offset += 1) {
+    const byte = buffer[buffer.byteLength - offset] ?? 0
+    if (isContinuationByte(byte)) {
+      continue
+    }
+
+    const sequenceLength = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1
+    return sequenceLength > offset ? offset : 0
+  }
+
+  return 0
+}
+
+/**
+ * Counts the continuation bytes of a UTF-8 character whose start was dropped.
+ *
+ * @param buffer Bytes that start somewhere inside the original output.
+ * @returns Number of leading bytes to skip so decoding starts on a character boundary.
+ */
+export const countLeadingContinuationBytes = (buffer: Buffer): number => {
+  let offset = 0
+  while (offset < Math.min(3, buffer.byteLength) && isContinuationByte(buffer[offset] ?? 0)) {
+    offset += 1
+  }
+
+  return offset
+}
+
+const isContinuationByte = (byte: number): boolean => {
+  return (byte & 0xc0) === 0x80
+}
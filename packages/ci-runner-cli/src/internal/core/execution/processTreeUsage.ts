@@ -0,0 +1,227 @@
+import { readFileSync } from 'node:fs'
+import { readdir, readFile } from 'node:fs/promises'
+
+import type { CommandResourceUsage } from '../contracts/executor.js'
+
+/** Interval between `/proc` samples of a running process tree. */
+const SAMPLE_INTERVAL_MS = 200
+
+/** Clock ticks per second used by CPU times in `/proc/<pid>/stat` (`USER_HZ`). */
+const CLOCK_TICKS_PER_SECOND = 100
+
+/**
+ * Background sampler for the resource usage of one process tree.
+ */
+export interface ProcessTreeUsageSampler {
+  /**
+   * Stops sampling once the current sample completes. Call it after the root process exited, so
+   * its reaped CPU time is included.
+   *
+   * @returns Usage over all samples, or undefined when nothing could be sampled.
+   */
+  stop(): Promise<CommandResourceUsage | undefined>
+}
+
+interface CpuTicks {
+  readonly userTicks: number
+  readonly systemTicks: number
+}
+
+interface ProcessStat extends CpuTicks {
+  readonly pid: number
+  readonly parentPid: number
+}
+
+/**
+ * Measurement windows of running samplers. A window is marked as overlapped when another tree was
+ * running at the same time, because the reaped-children totals of this process then mix both.
+ */
+const activeWindows = new Set<{ overlapped: boolean }>()
+
+/**
+ * Starts sampling CPU time and resident memory of a process and all of its descendants.
+ *
+ * Samples are read from `/proc`, so usage is only reported on Linux. CPU time includes
+ * descendants that were already reaped by a process of the tree; the peak resident memory is the
+ * highest sum over all live processes of one sample.
+ *
+ * Samples miss the CPU time spent after the last one. When no other tree was measured at the same
+ * time, `stop` therefore also reads how much CPU time this process gained from reaped children,
+ * which covers the whole root process including its final moments.
+ *
+ * @param rootPid Process id of the tree root.
+ * @param intervalMs Interval between samples in milliseconds.
+ * @returns Running sampler.
+ */
+export const startProcessTreeUsageSampler = (
+  rootPid: number | undefined,
+  intervalMs = SAMPLE_INTERVAL_MS
+): ProcessTreeUsageSampler => {
+  if (process.platform !== 'linux' || rootPid === undefined) {
+    return { stop: () => Promise.resolve(undefined) }
+  }
+
+  const reapedAtStart = readReapedChildrenTicks()
+  const window = { overlapped: activeWindows.size > 0 }
+  for (const otherWindow of activeWindows) {
+    otherWindow.overlapped = true
+  }
+  activeWindows.add(window)
+
+  let usage: CommandResourceUsage | undefined
+  let stopped = false
+  let timer: NodeJS.Timeout | null = null
+  let pendingSample: Promise<void> = Promise.resolve()
+
+  const sample = (): void => {
+    pendingSample = sampleProcessTree(rootPid)
+      .then((current) => {
+        usage = current ? mergePeakUsage(usage, current) : usage
+      })
+      .catch(() => undefined)
+      .then(() => {
+        if (!stopped) {
+          timer = setTimeout(sample, intervalMs)
+          timer.unref()
+        }
+      })
+  }
+
+  sample()
+
+  return {
+    stop: async () => {
+      stopped = true
+      if (timer) {
+        clearTimeout(timer)
+      }
+      await pendingSample
+      activeWindows.delete(window)
+
+      const reapedAtStop = readReapedChildrenTicks()
+      if (!usage || window.overlapped || !reapedAtStart || !reapedAtStop) {
+        return usage
+      }
+
+      return {
+        ...usage,
+        cpuUserMs: Math.max(
+          usage.cpuUserMs,
+          ticksToMs(reapedAtStop.userTicks - reapedAtStart.userTicks)
+        ),
+        cpuSystemMs: Math.max(
+          usage.cpuSystemMs,
+          ticksToMs(reapedAtStop.systemTicks - reapedAtStart.systemTicks)
+        ),
+      }
+    },
+  }
+}
+
+const sampleProcessTree = async (rootPid: number): Promise<CommandResourceUsage | null> => {
+  const stats = await readProcessStats()
+  const childrenByParent = new Map<number, ProcessStat[]>()
+  let root: ProcessStat | undefined
+
+  for (const stat of stats) {
+    if (stat.pid === rootPid) {
+      root = stat
+    }
+    const siblings = childrenByParent.get(stat.parentPid) ?? []
+    siblings.push(stat)
+    childrenByParent.set(stat.parentPid, siblings)
+  }
+
+  if (!root) {
+    return null
+  }
+
+  const tree: ProcessStat[] = []
+  const queue: ProcessStat[] = [root]
+  for (let stat = queue.shift(); stat; stat = queue.shift()) {
+    tree.push(stat)
+    queue.push(...(childrenByParent.get(stat.pid) ?? []))
+  }
+
+  const rssBytes = await Promise.all(tree.map((stat) => readResidentBytes(stat.pid)))
+
+  return {
+    cpuUserMs: ticksToMs(tree.reduce((total, stat) => total + stat.userTicks, 0)),
+    cpuSystemMs: ticksToMs(tree.reduce((total, stat) => total + stat.systemTicks, 0)),
+    peakRssBytes: rssBytes.reduce((total, bytes) => total + bytes, 0),
+  }
+}
+
+const readProcessStats = async (): Promise<readonly ProcessStat[]> => {
+  const entries = await readdir('/proc')
+  const stats = await Promise.all(
+    entries.filter((entry) => /^\d+$/u.test(entry)).map((entry) => readProcessStat(entry))
+  )
+
+  return stats.filter((stat): stat is ProcessStat => stat !== null)
+}
+
+const readProcessStat = async (pid: string): Promise<ProcessStat | null> => {
+  let text: string
+  try {
+    text = await readFile(`/proc/${pid}/stat`, 'utf8')
+  } catch {
+    return null
+  }
+
+  // The command name may contain spaces and parentheses, so fields are read after its last `)`.
+  const fields = text.slice(text.lastIndexOf(')') + 2).split(' ')
+  const field = (index: number): number => Number(fields[index] ?? 0)
+
+  return {
+    pid: Number(pid),
+    parentPid: field(1),
+    // utime + cutime and stime + cstime (fields 14 to 17 of proc(5)).
+    userTicks: field(11) + field(13),
+    systemTicks: field(12) + field(14),
+  }
+}
+
+/**
+ * Reads the CPU time of all children this process has reaped so far (cutime and cstime).
+ */
+const readReapedChildrenTicks = (): CpuTicks | null => {
+  let text: string
+  try {
+    text = readFileSync('/proc/self/stat', 'utf8')
+  } catch {
+    return null
+  }
+
+  const fields = text.slice(text.lastIndexOf(')') + 2).split(' ')
+  return { userTicks: Number(fields[13] ?? 0), systemTicks: Number(fields[14] ?? 0) }
+}
+
+const readResidentBytes = async (pid: number): Promise<number> => {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf8')
+    const match = /^VmRSS:\s+(\d+) kB$/mu.exec(status)
+    return match?.[1] ? Number(match[1]) * 1024 : 0
+  } catch {
+    return 0
+  }
+}
+
+const mergePeakUsage = (
+  previous: CommandResourceUsage | undefined,
+  current: CommandResourceUsage
+): CommandResourceUsage => {
+  if (!previous) {
+    return current
+  }
+
+  return {
+    cpuUserMs: Math.max(previous.cpuUserMs, current.cpuUserMs),
+    cpuSystemMs: Math.max(previous.cpuSystemMs, current.cpuSystemMs),
+    peakRssBytes: Math.max(previous.peakRssBytes, current.peakRssBytes),
+  }
+}
+
+const ticksToMs = (ticks: number): number => {
+  return Math.round((ticks * 1000) / CLOCK_TICKS_PER_SECOND)
+}
@@ -1,16 +1,26 @@
+export type { CachedStepResult, StepResultCache } from './contracts/cache.js'
 export type {
   CommandExecutionRequest,
   CommandExecutionResult,
   CommandExecutor,
+  CommandOutputStream,
+  CommandResourceUsage,
   CommandTermination,
   CommandTerminationKind,
+  OutputTruncateStrategy,
 } from './contracts/executor.js'
 export type { ParsedStepMetrics, StepOutputParser, StepParserResolver } from './contracts/parser.js'
 export type { PipelineReporter } from './contracts/reporter.js'
 export type { PipelineRunOptions, PipelineRunResult, PipelineSummary } from './contracts/run.js'
 export type {
   PipelineStep,
+  StepAttempt,
   StepExecutionOutput,
+  StepExitCodes,
+  StepMetricThreshold,
+  StepMetricThresholdBreach,
+  StepOutputAssertionFailure,
+  StepOutputAssertions,
   StepResult,
   StepResultReason,
   StepRetryPolicy,
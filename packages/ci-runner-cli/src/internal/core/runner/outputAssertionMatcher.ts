@@ -0,0 +1,113 @@
+import type { CommandOutputStream } from '../contracts/executor.js'
+import type {
+  StepExecutionOutput,
+  StepOutputAssertionFailure,
+  StepOutputAssertions,
+} from '../contracts/step.js'
+
+/** Longest unterminated line, in UTF-16 code units, buffered per stream before it is matched. */
+const MAX_PENDING_LINE_LENGTH = 64 * 1024
+
+/**
+ * Incremental check of `assertOutput` patterns against the output of one attempt.
+ */
+export interface OutputAssertionMatcher {
+  /** Adds a decoded output chunk. Complete lines are matched immediately. */
+  write(stream: CommandOutputStream, chunk: string): void
+  /**
+   * Matches the unterminated last lines and returns the first violated assertion, if any.
+   *
+   * @param output Captured output that is matched instead when no chunk was written, for
+   * executors that do not stream output.
+   */
+  finish(output: StepExecutionOutput): StepOutputAssertionFailure | null
+}
+
+/**
+ * Creates a matcher that evaluates output assertions line by line while output streams in.
+ *
+ * Only the unterminated last line of each stream is buffered, so the complete output is checked
+ * independently of `maxOutputBytes`. Patterns are tested against single lines in multiline mode
+ * with trailing carriage returns removed, which means a pattern cannot span several lines. An
+ * unterminated line that grows past 64 KiB, such as `\r` progress output, is matched as far as
+ * it got and then dropped.
+ *
+ * @param assertions Step output assertions.
+ * @returns Output assertion matcher.
+ */
+export const createOutputAssertionMatcher = (
+  assertions: StepOutputAssertions
+): OutputAssertionMatcher => {
+  const mustMatch = (assertions.mustMatch ?? []).map((pattern) => ({
+    pattern,
+    regExp: new RegExp(pattern, 'm'),
+  }))
+  const mustNotMatch = (assertions.mustNotMatch ?? []).map((pattern) => ({
+    pattern,
+    regExp: new RegExp(pattern, 'm'),
+  }))
+  const matchedPatterns = new Set<string>()
+  const pendingLines: Record<CommandOutputStream, string> = { stdout: '', stderr: '' }
+  let forbiddenMatch: StepOutputAssertionFailure | null = null
+  let receivedOutput = false
+
+  const matchLine = (rawLine: string): void => {
+    const line = rawLine.replace(/\r$/u, '')
+    for (const { pattern, regExp } of mustMatch) {
+      if (!matchedPatterns.has(pattern) && regExp.test(line)) {
+        matchedPatterns.add(pattern)
+      }
+    }
+
+    if (forbiddenMatch) {
+      return
+    }
+
+    for (const { pattern, regExp } of mustNotMatch) {
+      if (regExp.test(line)) {
+        forbiddenMatch = { assertion: 'mustNotMatch', pattern, line }
+        return
+      }
+    }
+  }
+
+  const write = (stream: CommandOutputStream, chunk: string): void => {
+    receivedOutput = true
+    const lines = chunk.split('\n')
+    const unterminated = lines.pop() ?? ''
+    for (const [index, line] of lines.entries()) {
+      matchLine(index === 0 ? `${pendingLines[stream]}${line}` : line)
+    }
+
+    pendingLines[stream] =
+      lines.length === 0 ? `${pendingLines[stream]}${unterminated}` : unterminated
+    if (pendingLines[stream].length > MAX_PENDING_LINE_LENGTH) {
+      matchLine(pendingLines[stream])
+      pendingLines[stream] = ''
+    }
+  }
+
+  return {
+    write,
+    finish: (output) => {
+      if (!receivedOutput) {
+        write('stdout', output.stdout)
+        write('stderr', output.stderr)
+      }
+
+      for (const stream of ['stdout', 'stderr'] as const) {
+        if (pendingLines[stream].length > 0) {
+          matchLine(pendingLines[stream])
+          pendingLines[stream] = ''
+        }
+      }
+
+      const missing = mustMatch.find(({ pattern }) => !matchedPatterns.has(pattern))
+      if (missing) {
+        return { assertion: 'mustMatch', pattern: missing.pattern }
+      }
+
+      return forbiddenMatch
+    },
+  }
+}
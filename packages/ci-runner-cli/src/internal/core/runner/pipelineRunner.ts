@@ -1,15 +1,51 @@
-import type { CommandExecutionResult, CommandTermination } from '../contracts/executor.js'
+import { join } from 'node:path'
+
+import type { CachedStepResult } from '../contracts/cache.js'
+import type {
+  CommandExecutionRequest,
+  CommandExecutionResult,
+  CommandResourceUsage,
+  CommandTermination,
+} from '../contracts/executor.js'
+import type { ParsedStepMetrics } from '../contracts/parser.js'
 import type { PipelineRunOptions, PipelineRunResult, PipelineSummary } from '../contracts/run.js'
-import type { PipelineStep, StepResult, StepResultReason, StepStatus } from '../contracts/step.js'
+import type {
+  PipelineStep,
+  StepAttempt,
+  StepMetricThreshold,
+  StepMetricThresholdBreach,
+  StepOutputAssertionFailure,
+  StepResult,
+  StepResultReason,
+  StepStatus,
+} from '../contracts/step.js'
+import { countLeadingContinuationBytes } from '../execution/outputCapture.js'
+import {
+  createOutputAssertionMatcher,
+  type OutputAssertionMatcher,
+} from './outputAssertionMatcher.js'
+
+/** Maximum bytes kept per stream for each entry in `attemptHistory`. */
+const ATTEMPT_OUTPUT_MAX_BYTES = 8 * 1024
+
+/** Maximum bytes kept in memory per stream when the complete output goes to a log file. */
+const LOGGED_OUTPUT_MAX_BYTES = 1024 * 1024
 
 /**
- * Pipeline execution engine for sequential CI step orchestration.
+ * Pipeline execution engine for CI step orchestration.
+ *
+ * Steps run in config order unless `dependsOn` requires a dependency to run first. A step whose
+ * dependency did not pass is reported as `not_run` instead of being executed. With `concurrency`
+ * above 1, independent steps run at the same time while results keep config order. Aborting
+ * `signal` stops running steps and reports every step that has not started as `cancelled`. When
+ * the `timeoutMs` budget runs out or fail-fast stops the run, running steps are cancelled and the
+ * rest are `not_run`.
  */
 export class PipelineRunner {
   private readonly options: Required<
-    Pick<PipelineRunOptions, 'continueOnError' | 'now' | 'sleep'>
+    Pick<PipelineRunOptions, 'continueOnError' | 'concurrency' | 'now' | 'sleep' | 'random'>
   > &
-    Omit<PipelineRunOptions, 'continueOnError' | 'now' | 'sleep'>
+    Omit<PipelineRunOptions, 'continueOnError' | 'concurrency' | 'now' | 'sleep' | 'random'>
 
   /**
    * Creates a pipeline runner.
@@ -20,6 +56,7 @@ export class PipelineRunner {
     this.options = {
       ...options,
       continueOnError: options.continueOnError ?? true,
+      concurrency: Math.max(1, Math.floor(options.concurrency ?? 1)),
       now: options.now ?? Date.now,
       sleep:
         options.sleep ??
@@ -28,6 +65,7 @@ export class PipelineRunner {
             setTimeout(resolve, durationMs)
           })
         }),
+      random: options.random ?? Math.random,
     }
   }
 
@@ -38,32 +76,164 @@ export class PipelineRunner {
    */
   public async run(): Promise<PipelineRunResult> {
     const runStartedAt = this.options.now()
-    const stepResults: StepResult[] = []
+    const executionOrder = resolveExecutionOrder(this.options.steps)
+    const pendingIndexes = new Set(executionOrder)
+    const runningSteps = new Map<number, Promise<{ index: number; result: StepResult }>>()
+    const resultsById = new Map<string, StepResult>()
+    const cancelController = new AbortController()
+    let failFastStepId: string | null = null
+
+    const externalSignal = this.options.signal
+    const onExternalAbort = (): void => {
+      cancelController.abort()
+    }
+    if (externalSignal?.aborted) {
+      cancelController.abort()
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort, { once: true })
+    }
+
+    let budgetExceeded = false
+    const budgetMs = this.options.timeoutMs
+    const budgetHandle =
+      typeof budgetMs === 'number' && budgetMs > 0
+        ? setTimeout(() => {
+            if (!cancelController.signal.aborted) {
+              budgetExceeded = true
+              cancelController.abort()
+            }
+          }, budgetMs)
+        : null
+
+    const withCancellationReason = (result: StepResult): StepResult => {
+      if (failFastStepId !== null) {
+        return { ...result, reason: 'fail_fast', blockedBy: failFastStepId }
+      }
+
+      return { ...result, reason: budgetExceeded ? 'budget_exceeded' : 'pipeline_cancelled' }
+    }
+
+    const startReadySteps = async (): Promise<void> => {
+      let progressed = true
+
+      while (progressed && !cancelController.signal.aborted) {
+        progressed = false
 
-    await this.emitPipelineStart()
+        for (const index of pendingIndexes) {
+          if (runningSteps.size >= this.options.concurrency) {
+            return
+          }
+
+          const step = this.options.steps[index]
+          if (!step) {
+            pendingIndexes.delete(index)
+            continue
+          }
+
+          const dependencies = step.dependsOn ?? []
+          if (!dependencies.every((dependencyId) => resultsById.has(dependencyId))) {
+            continue
+          }
+
+          pendingIndexes.delete(index)
+
+          const blockingStepId = findBlockingDependency(step, resultsById)
+          if (blockingStepId) {
+            const notRunResult = this.buildUnstartedResult(
+              step,
+              'not_run',
+              'dependency_failed',
+              blockingStepId
+            )
+            resultsById.set(step.id, notRunResult)
+            await this.emitStepComplete(notRunResult, index)
+            progressed = true
+            continue
+          }
+
+          await this.emitStepStart(step, index)
+          runningSteps.set(
+            index,
+            this.executeStep(step, cancelController.signal)
+              .catch((error: unknown) => this.buildErrorResult(step, error))
+              .then((result) => ({ index, result }))
+          )
+        }
+      }
+    }
+
+    try {
+      await this.emitPipelineStart()
+      await startReadySteps()
+
+      while (runningSteps.size > 0) {
+        const completed = await Promise.race(runningSteps.values())
+        runningSteps.delete(completed.index)
+
+        const stepResult =
+          completed.result.status === 'cancelled'
+            ? withCancellationReason(completed.result)
+            : completed.result
+        resultsById.set(stepResult.id, stepResult)
+
+        await this.emitStepComplete(stepResult, completed.index)
+
+        const isHardFailure = stepResult.status === 'failed' || stepResult.status === 'timed_out'
+        if (!this.options.continueOnError && isHardFailure && failFastStepId === null) {
+          failFastStepId = stepResult.id
+          cancelController.abort()
+        }
 
-    for (const [index, step] of this.options.steps.entries()) {
-      await this.emitStepStart(step, index)
+        await startReadySteps()
+      }
+    } finally {
+      // A reporter that throws ends the run, so steps that are still running must be stopped.
+      if (runningSteps.size > 0) {
+        cancelController.abort()
+      }
+      externalSignal?.removeEventListener('abort', onExternalAbort)
+      if (budgetHandle) {
+        clearTimeout(budgetHandle)
+      }
+    }
 
-      const stepResult = await this.executeStep(step)
-      stepResults.push(stepResult)
+    const aborted = externalSignal?.aborted === true && !budgetExceeded
 
-      await this.emitStepComplete(stepResult, index)
+    if (aborted || budgetExceeded || failFastStepId !== null) {
+      for (const index of executionOrder) {
+        const step = this.options.steps[index]
+        if (!step || !pendingIndexes.has(index)) {
+          continue
+        }
 
-      const isHardFailure = stepResult.status === 'failed' || stepResult.status === 'timed_out'
-      if (!this.options.continueOnError && isHardFailure) {
-        break
+        const unstartedResult =
+          failFastStepId !== null
+            ? this.buildUnstartedResult(step, 'not_run', 'fail_fast', failFastStepId)
+            : budgetExceeded
+              ? this.buildUnstartedResult(step, 'not_run', 'budget_exceeded')
+              : this.buildUnstartedResult(step, 'cancelled', 'pipeline_cancelled')
+        resultsById.set(step.id, unstartedResult)
+        await this.emitStepComplete(unstartedResult, index)
       }
     }
 
+    const stepResults = this.options.steps
+      .map((step) => resultsById.get(step.id))
+      .filter((result): result is StepResult => result !== undefined)
+
     const runFinishedAt = this.options.now()
-    const summary = buildSummary(stepResults, runFinishedAt - runStartedAt)
-    const exitCode: 0 | 1 = summary.failed > 0 || summary.timedOut > 0 ? 1 : 0
+    const summary = buildSummary(stepResults, runFinishedAt - runStartedAt, budgetExceeded)
+    const strictWarnings = this.options.strict === true && summary.warnings > 0
+    const exitCode: 0 | 1 =
+      summary.failed > 0 || summary.timedOut > 0 || strictWarnings || aborted || budgetExceeded
+        ? 1
+        : 0
 
     const result: PipelineRunResult = {
       steps: stepResults,
       summary,
       exitCode,
+      aborted,
       startedAt: runStartedAt,
       finishedAt: runFinishedAt,
     }
@@ -73,53 +243,164 @@ export class PipelineRunner {
     return result
   }
 
-  private async executeStep(step: PipelineStep): Promise<StepResult> {
+  private async executeStep(step: PipelineStep, signal: AbortSignal): Promise<StepResult> {
     const startedAt = this.options.now()
     const retryPolicy = normalizeRetryPolicy(step)
     const mergedEnv: NodeJS.ProcessEnv = { ...this.options.env, ...step.env }
 
+    const cacheKey = (await this.options.cache?.getKey(step)) ?? null
+    if (cacheKey) {
+      const cached = await this.options.cache?.read(step, cacheKey)
+      if (cached) {
+        return this.buildCachedResult(step, startedAt, cached)
+      }
+    }
+
     let attempts = 0
     let lastExecution: CommandExecutionResult | null = null
+    const attemptHistory: StepAttempt[] = []
+    const captureOutput = step.captureOutput ?? this.options.captureOutput
+    const logFile = this.getLogFile(step, captureOutput)
+    const maxOutputBytes = step.maxOutputBytes ?? this.options.maxOutputBytes
 
-    while (attempts < retryPolicy.maxAttempts) {
+    while (attempts < retryPolicy.maxAttempts && !signal.aborted) {
       attempts += 1
 
+      const outputAssertions = step.assertOutput
+        ? createOutputAssertionMatcher(step.assertOutput)
+        : undefined
       const execution = await this.options.executor({
         command: step.command,
         cwd: step.cwd ?? this.options.cwd ?? process.cwd(),
         env: mergedEnv,
         timeoutMs: step.timeoutMs,
-        captureOutput: step.captureOutput ?? this.options.captureOutput,
-        maxOutputBytes: step.maxOutputBytes ?? this.options.maxOutputBytes,
+        idleTimeoutMs: step.idleTimeoutMs,
+        killSignal: step.killSignal ?? this.options.killSignal,
+        killGracePeriodMs: step.killGracePeriodMs ?? this.options.killGracePeriodMs,
+        captureOutput,
+        maxOutputBytes: maxOutputBytes ?? (logFile ? LOGGED_OUTPUT_MAX_BYTES : undefined),
+        truncateStrategy: this.options.truncateStrategy,
+        logFile,
         pipefail: step.pipefail,
+        measureResourceUsage: this.options.measureResourceUsage,
+        signal,
+        onOutput: this.createOutputListener(step, outputAssertions),
       })
 
       lastExecution = execution
+      attemptHistory.push(buildStepAttempt(attempts, execution))
+
+      const exitOutcome = classifyExitCode(step, execution)
+      const exitedSuccessfully = exitOutcome === 'passed' || exitOutcome === 'warning'
+      const outputAssertionFailure = exitedSuccessfully
+        ? (outputAssertions?.finish(execution) ?? null)
+        : null
+      if (outputAssertionFailure) {
+        return this.buildStepResult({
+          step,
+          status: step.optional ? 'failed_allowed' : 'failed',
+          reason: step.optional ? 'optional_step_failed' : 'output_assertion_failed',
+          attempts,
+          attemptHistory,
+          startedAt,
+          output: execution,
+          outputAssertionFailure,
+        })
+      }
+
+      const thresholds = exitedSuccessfully ? step.thresholds : undefined
+      const metrics = thresholds
+        ? (this.options.parserResolver?.parse(step, execution) ?? null)
+        : null
+      const metricThresholdBreach = thresholds
+        ? findMetricThresholdBreach(thresholds, metrics)
+        : null
+      if (metricThresholdBreach) {
+        return this.buildStepResult({
+          step,
+          status: step.optional ? 'failed_allowed' : 'failed',
+          reason: step.optional ? 'optional_step_failed' : 'metric_threshold_exceeded',
+          attempts,
+          attemptHistory,
+          startedAt,
+          output: execution,
+          metrics,
+          metricThresholdBreach,
+        })
+      }
 
-      if (execution.successful) {
+      if (exitOutcome === 'warning' || exitOutcome === 'skipped') {
         return this.buildStepResult({
+          step,
+          status: exitOutcome,
+          reason: exitOutcome === 'warning' ? 'exit_code_warning' : 'exit_code_skipped',
+          attempts,
+          attemptHistory,
+          startedAt,
+          output: execution,
+        })
+      }
+
+      if (exitOutcome === 'passed') {
+        const flaky = attempts > 1
+        if (flaky && retryPolicy.failOnFlaky) {
+          return this.buildStepResult({
+            step,
+            status: step.optional ? 'failed_allowed' : 'failed',
+            reason: step.optional ? 'optional_step_failed' : 'flaky',
+            attempts,
+            attemptHistory,
+            startedAt,
+            output: execution,
+            flaky,
+          })
+        }
+
+        const passedResult = this.buildStepResult({
           step,
           status: 'passed',
           reason: undefined,
           attempts,
+          attemptHistory,
           startedAt,
           output: execution,
+          flaky,
         })
+
+        // A flaky pass is not cached: a hit would hide the retry from failOnFlaky and the summary.
+        if (cacheKey && !flaky) {
+          await this.options.cache?.write(step, cacheKey, passedResult)
+        }
+
+        return passedResult
       }
 
       const canRetry =
         attempts < retryPolicy.maxAttempts &&
         retryPolicy.maxAttempts > 1 &&
-        canRetryTermination(getTermination(execution), retryPolicy)
+        canRetryExecution(execution, retryPolicy)
 
       if (canRetry) {
-        if (retryPolicy.delayMs > 0) {
-          await this.options.sleep(retryPolicy.delayMs)
+        const delayMs = getRetryDelay(retryPolicy, attempts, this.options.random)
+        if (delayMs > 0) {
+          await this.sleepUnlessAborted(delayMs, signal)
         }
         continue
       }
 
-      return this.buildFailedResult(step, attempts, startedAt, execution)
+      return this.buildFailedResult(step, attempts, attemptHistory, startedAt, execution)
+    }
+
+    if (signal.aborted) {
+      return this.buildStepResult({
+        step,
+        status: 'cancelled',
+        reason: undefined,
+        attempts,
+        attemptHistory,
+        startedAt,
+        output: lastExecution ?? createCancelledExecutionResult(),
+      })
     }
 
     const fallbackOutput = createFallbackExecutionResult()
@@ -129,6 +410,7 @@ export class PipelineRunner {
       status: 'failed',
       reason: 'command_failed',
       attempts,
+      attemptHistory,
       startedAt,
       output: lastExecution ?? fallbackOutput,
     })
@@ -137,15 +419,29 @@ export class PipelineRunner {
   private buildFailedResult(
     step: PipelineStep,
     attempts: number,
+    attemptHistory: readonly StepAttempt[],
     startedAt: number,
     output: CommandExecutionResult
   ): StepResult {
+    if (getTermination(output).kind === 'cancelled') {
+      return this.buildStepResult({
+        step,
+        status: 'cancelled',
+        reason: undefined,
+        attempts,
+        attemptHistory,
+        startedAt,
+        output,
+      })
+    }
+
     if (step.optional) {
       return this.buildStepResult({
         step,
-        status: 'skipped',
+        status: 'failed_allowed',
         reason: 'optional_step_failed',
         attempts,
+        attemptHistory,
         startedAt,
         output,
       })
@@ -155,8 +451,12 @@ export class PipelineRunner {
       return this.buildStepResult({
         step,
         status: 'timed_out',
-        reason: 'command_timeout',
+        reason:
+          getTermination(output).kind === 'idle_timeout'
+            ? 'command_idle_timeout'
+            : 'command_timeout',
         attempts,
+        attemptHistory,
         startedAt,
         output,
       })
@@ -168,6 +468,7 @@ export class PipelineRunner {
         status: 'failed',
         reason: 'command_signaled',
         attempts,
+        attemptHistory,
         startedAt,
         output,
       })
@@ -179,6 +480,7 @@ export class PipelineRunner {
         status: 'failed',
         reason: 'command_spawn_failed',
         attempts,
+        attemptHistory,
         startedAt,
         output,
       })
@@ -189,6 +491,7 @@ export class PipelineRunner {
       status: 'failed',
       reason: 'command_failed',
       attempts,
+      attemptHistory,
       startedAt,
       output,
     })
@@ -199,11 +502,24 @@ export class PipelineRunner {
     status: StepStatus
     reason: StepResultReason | undefined
     attempts: number
+    attemptHistory: readonly StepAttempt[]
     startedAt: number
     output: CommandExecutionResult
+    flaky?: boolean
+    outputAssertionFailure?: StepOutputAssertionFailure
+    metrics?: ParsedStepMetrics | null
+    metricThresholdBreach?: StepMetricThresholdBreach
   }): StepResult {
     const finishedAt = this.options.now()
-    const metrics = this.options.parserResolver?.parse(input.step, input.output) ?? null
+    const metrics =
+      input.metrics !== undefined
+        ? input.metrics
+        : (this.options.parserResolver?.parse(input.step, input.output) ?? null)
+    const logFile =
+      input.attemptHistory.length > 0
+        ? this.getLogFile(input.step, input.step.captureOutput ?? this.options.captureOutput)
+        : undefined
+    const resourceUsage = combineResourceUsage(input.attemptHistory)
 
     return {
       id: input.step.id,
@@ -212,6 +528,13 @@ export class PipelineRunner {
       reason: input.reason,
       attempts: input.attempts,
       retried: input.attempts > 1,
+      ...(input.flaky ? { flaky: true } : {}),
+      ...(input.outputAssertionFailure
+        ? { outputAssertionFailure: input.outputAssertionFailure }
+        : {}),
+      ...(input.metricThresholdBreach
+        ? { metricThresholdBreach: input.metricThresholdBreach }
+        : {}),
       startedAt: input.startedAt,
       finishedAt,
       durationMs: finishedAt - input.startedAt,
@@ -223,10 +546,138 @@ export class PipelineRunner {
         outputTruncated: input.output.outputTruncated,
       },
       termination: getTermination(input.output),
+      attemptHistory: input.attemptHistory,
+      ...(logFile ? { logFile } : {}),
+      ...(resourceUsage ? { resourceUsage } : {}),
       metrics,
     }
   }
 
+  /**
+   * Reports a step whose execution threw, for example because the executor, cache or a parser
+   * failed, as a failed step so the rest of the run is scheduled normally.
+   */
+  private buildErrorResult(step: PipelineStep, error: unknown): StepResult {
+    const message = error instanceof Error ? error.message : String(error)
+
+    return this.buildStepResult({
+      step,
+      status: step.optional ? 'failed_allowed' : 'failed',
+      reason: step.optional ? 'optional_step_failed' : 'command_failed',
+      attempts: 0,
+      attemptHistory: [],
+      startedAt: this.options.now(),
+      output: { ...createFallbackExecutionResult(), stderr: `Step failed to run: ${message}` },
+      metrics: null,
+    })
+  }
+
+  private getLogFile(step: PipelineStep, captureOutput: boolean | undefined): string | undefined {
+    if (!this.options.logDirectory || captureOutput === false) {
+      return undefined
+    }
+
+    return join(this.options.logDirectory, `${encodeURIComponent(step.id)}.log`)
+  }
+
+  private buildCachedResult(
+    step: PipelineStep,
+    startedAt: number,
+    cached: CachedStepResult
+  ): StepResult {
+    const finishedAt = this.options.now()
+
+    return {
+      id: step.id,
+      name: step.name,
+      status: 'passed',
+      attempts: 0,
+      retried: false,
+      cacheHit: true,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      output: cached.output,
+      termination: {
+        kind: 'succeeded',
+        exitCode: cached.output.exitCode,
+        signal: cached.output.signal,
+      },
+      attemptHistory: [],
+      metrics: cached.metrics,
+    }
+  }
+
+  private buildUnstartedResult(
+    step: PipelineStep,
+    status: StepStatus,
+    reason: StepResultReason,
+    blockedBy?: string
+  ): StepResult {
+    const timestamp = this.options.now()
+
+    return {
+      id: step.id,
+      name: step.name,
+      status,
+      reason,
+      blockedBy,
+      attempts: 0,
+      retried: false,
+      startedAt: timestamp,
+      finishedAt: timestamp,
+      durationMs: 0,
+      output: {
+        exitCode: null,
+        signal: null,
+        stdout: '',
+        stderr: '',
+      },
+      termination: { kind: 'not_started', exitCode: null, signal: null },
+      attemptHistory: [],
+      metrics: null,
+    }
+  }
+
+  private async sleepUnlessAborted(durationMs: number, signal: AbortSignal): Promise<void> {
+    if (signal.aborted) {
+      return
+    }
+
+    let onAbort = (): void => {}
+    const aborted = new Promise<void>((resolve) => {
+      onAbort = () => {
+        resolve()
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+
+    try {
+      await Promise.race([this.options.sleep(durationMs), aborted])
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  private createOutputListener(
+    step: PipelineStep,
+    outputAssertions: OutputAssertionMatcher | undefined
+  ): CommandExecutionRequest['onOutput'] {
+    const reporters = (this.options.reporters ?? []).filter(
+      (reporter) => reporter.onStepOutput !== undefined
+    )
+    if (reporters.length === 0 && !outputAssertions) {
+      return undefined
+    }
+
+    return (stream, chunk) => {
+      outputAssertions?.write(stream, chunk)
+      for (const reporter of reporters) {
+        reporter.onStepOutput?.(step, stream, chunk)
+      }
+    }
+  }
+
   private async emitPipelineStart(): Promise<void> {
     const reporters = this.options.reporters ?? []
     for (const reporter of reporters) {
@@ -266,46 +717,165 @@ export const createPipelineRunner = (options: PipelineRunOptions): PipelineRunne
   return new PipelineRunner(options)
 }
 
-const normalizeRetryPolicy = (
-  step: PipelineStep
-): {
-  maxAttempts: number
-  delayMs: number
-  retryOnTimeout: boolean
-  retryOnSignal: boolean
-  retryOnSpawnFailure: boolean
-} => {
+interface NormalizedRetryPolicy {
+  readonly maxAttempts: number
+  readonly delayMs: number
+  readonly backoffMultiplier: number
+  readonly maxDelayMs: number
+  readonly jitter: number
+  readonly retryOnTimeout: boolean
+  readonly retryOnSignal: boolean
+  readonly retryOnSpawnFailure: boolean
+  readonly retryOnExitCodes: ReadonlySet<number> | null
+  readonly retryOnOutputPattern: RegExp | null
+  readonly failOnFlaky: boolean
+}
+
+const normalizeRetryPolicy = (step: PipelineStep): NormalizedRetryPolicy => {
   const maxAttempts = Math.max(1, step.retry?.maxAttempts ?? 1)
   const delayMs = Math.max(0, step.retry?.delayMs ?? 0)
+  const backoffMultiplier = Math.max(1, step.retry?.backoffMultiplier ?? 1)
+  const maxDelayMs = Math.max(0, step.retry?.maxDelayMs ?? Number.POSITIVE_INFINITY)
+  const jitter = Math.min(1, Math.max(0, step.retry?.jitter ?? 0))
   const retryOnTimeout = step.retry?.retryOnTimeout ?? false
   const retryOnSignal = step.retry?.retryOnSignal ?? false
   const retryOnSpawnFailure = step.retry?.retryOnSpawnFailure ?? false
+  const retryOnExitCodes = step.retry?.retryOnExitCodes
+    ? new Set(step.retry.retryOnExitCodes)
+    : null
+  const retryOnOutputPattern =
+    step.retry?.retryOnOutputPattern !== undefined
+      ? new RegExp(step.retry.retryOnOutputPattern, 'm')
+      : null
+  const failOnFlaky = step.retry?.failOnFlaky ?? false
 
   return {
     maxAttempts,
     delayMs,
+    backoffMultiplier,
+    maxDelayMs,
+    jitter,
     retryOnTimeout,
     retryOnSignal,
     retryOnSpawnFailure,
+    retryOnExitCodes,
+    retryOnOutputPattern,
+    failOnFlaky,
   }
 }
 
-const buildSummary = (stepResults: readonly StepResult[], durationMs: number): PipelineSummary => {
+/**
+ * Computes the delay before the next attempt.
+ *
+ * The delay grows by `backoffMultiplier` per retry, is capped at `maxDelayMs`, and then reduced
+ * by a random share of up to `jitter`.
+ *
+ * @param policy Normalized retry policy.
+ * @param completedAttempts Number of attempts executed so far.
+ * @param random Random source returning values in [0, 1).
+ * @returns Delay in whole milliseconds.
+ */
+const getRetryDelay = (
+  policy: NormalizedRetryPolicy,
+  completedAttempts: number,
+  random: () => number
+): number => {
+  const backoffDelay = policy.delayMs * policy.backoffMultiplier ** (completedAttempts - 1)
+  const cappedDelay = Math.min(backoffDelay, policy.maxDelayMs)
+
+  return Math.round(cappedDelay * (1 - policy.jitter * random()))
+}
+
+const buildSummary = (
+  stepResults: readonly StepResult[],
+  durationMs: number,
+  budgetExceeded: boolean
+): PipelineSummary => {
   const passed = stepResults.filter((result) => result.status === 'passed').length
+  const warnings = stepResults.filter((result) => result.status === 'warning').length
   const failed = stepResults.filter((result) => result.status === 'failed').length
+  const failedAllowed = stepResults.filter((result) => result.status === 'failed_allowed').length
   const skipped = stepResults.filter((result) => result.status === 'skipped').length
   const timedOut = stepResults.filter((result) => result.status === 'timed_out').length
+  const flaky = stepResults.filter((result) => result.flaky === true).length
+  const notRun = stepResults.filter((result) => result.status === 'not_run').length
+  const cancelled = stepResults.filter((result) => result.status === 'cancelled').length
 
   return {
     total: stepResults.length,
     passed,
+    warnings,
     failed,
+    failedAllowed,
     skipped,
     timedOut,
+    flaky,
+    notRun,
+    cancelled,
+    budgetExceeded,
     durationMs,
   }
 }
 
+/**
+ * Resolves step indexes in execution order.
+ *
+ * Each step runs as early as its config position allows once all dependencies are ordered, so
+ * pipelines without `dependsOn` keep their config order.
+ *
+ * @param steps Steps in config order.
+ * @returns Step indexes in execution order.
+ * @throws Error when a dependency is unknown or the dependencies contain a cycle.
+ */
+const resolveExecutionOrder = (steps: readonly PipelineStep[]): readonly number[] => {
+  const knownStepIds = new Set(steps.map((step) => step.id))
+  for (const step of steps) {
+    for (const dependencyId of step.dependsOn ?? []) {
+      if (!knownStepIds.has(dependencyId)) {
+        throw new Error(`Step ${step.id} depends on unknown step id: ${dependencyId}`)
+      }
+    }
+  }
+
+  const order: number[] = []
+  const orderedStepIds = new Set<string>()
+
+  while (order.length < steps.length) {
+    const nextIndex = steps.findIndex((step, index) => {
+      return (
+        !order.includes(index) &&
+        (step.dependsOn ?? []).every((dependencyId) => orderedStepIds.has(dependencyId))
+      )
+    })
+
+    if (nextIndex === -1) {
+      const pendingStepIds = steps
+        .filter((_, index) => !order.includes(index))
+        .map((step) => step.id)
+      throw new Error(`Step dependencies contain a cycle: ${pendingStepIds.join(', ')}`)
+    }
+
+    order.push(nextIndex)
+    orderedStepIds.add(steps[nextIndex]?.id ?? '')
+  }
+
+  return order
+}
+
+const findBlockingDependency = (
+  step: PipelineStep,
+  resultsById: ReadonlyMap<string, StepResult>
+): string | null => {
+  for (const dependencyId of step.dependsOn ?? []) {
+    const status = resultsById.get(dependencyId)?.status
+    if (status !== 'passed' && status !== 'warning') {
+      return dependencyId
+    }
+  }
+
+  return null
+}
+
 const createFallbackExecutionResult = (): CommandExecutionResult => {
   return {
     successful: false,
@@ -318,6 +888,134 @@ const createFallbackExecutionResult = (): CommandExecutionResult => {
   }
 }
 
+const createCancelledExecutionResult = (): CommandExecutionResult => {
+  return {
+    ...createFallbackExecutionResult(),
+    termination: { kind: 'cancelled', exitCode: null, signal: null },
+  }
+}
+
+const buildStepAttempt = (attempt: number, execution: CommandExecutionResult): StepAttempt => {
+  const stdout = keepTrailingBytes(execution.stdout, ATTEMPT_OUTPUT_MAX_BYTES)
+  const stderr = keepTrailingBytes(execution.stderr, ATTEMPT_OUTPUT_MAX_BYTES)
+  const outputTruncated = execution.outputTruncated === true || stdout.truncated || stderr.truncated
+
+  return {
+    attempt,
+    durationMs: execution.durationMs,
+    termination: getTermination(execution),
+    output: {
+      exitCode: execution.exitCode,
+      signal: execution.signal,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      ...(outputTruncated ? { outputTruncated } : {}),
+    },
+    ...(execution.resourceUsage ? { resourceUsage: execution.resourceUsage } : {}),
+  }
+}
+
+/**
+ * Sums CPU time over all attempts and keeps the highest peak resident memory.
+ */
+const combineResourceUsage = (
+  attempts: readonly StepAttempt[]
+): CommandResourceUsage | undefined => {
+  let combined: CommandResourceUsage | undefined
+
+  for (const { resourceUsage } of attempts) {
+    if (!resourceUsage) {
+      continue
+    }
+
+    combined = {
+      cpuUserMs: (combined?.cpuUserMs ?? 0) + resourceUsage.cpuUserMs,
+      cpuSystemMs: (combined?.cpuSystemMs ?? 0) + resourceUsage.cpuSystemMs,
+      peakRssBytes: Math.max(combined?.peakRssBytes ?? 0, resourceUsage.peakRssBytes),
+    }
+  }
+
+  return combined
+}
+
+/**
+ * Keeps the end of the text, where failure details usually are, within a byte limit.
+ *
+ * The cut moves forward to the next character boundary, so the kept text never starts with a
+ * partial UTF-8 character.
+ */
+const keepTrailingBytes = (
+  text: string,
+  maxBytes: number
+): { readonly text: string; readonly truncated: boolean } => {
+  const buffer = Buffer.from(text, 'utf8')
+  if (buffer.length <= maxBytes) {
+    return { text, truncated: false }
+  }
+
+  const tail = buffer.subarray(buffer.length - maxBytes)
+  return {
+    text: tail.subarray(countLeadingContinuationBytes(tail)).toString('utf8'),
+    truncated: true,
+  }
+}
+
+/**
+ * Maps the exit code of a command that exited on its own through `step.exitCodes`.
+ *
+ * @returns The step outcome, or null when the exit counts as a failure.
+ */
+const classifyExitCode = (
+  step: PipelineStep,
+  execution: CommandExecutionResult
+): 'passed' | 'warning' | 'skipped' | null => {
+  const kind = getTermination(execution).kind
+  if ((kind !== 'succeeded' && kind !== 'exited_nonzero') || execution.exitCode === null) {
+    return null
+  }
+
+  if ((step.exitCodes?.success ?? [0]).includes(execution.exitCode)) {
+    return 'passed'
+  }
+  if (step.exitCodes?.warning?.includes(execution.exitCode)) {
+    return 'warning'
+  }
+  if (step.exitCodes?.skip?.includes(execution.exitCode)) {
+    return 'skipped'
+  }
+
+  return null
+}
+
+/**
+ * Checks parsed metrics against `step.thresholds`.
+ *
+ * A missing or non-numeric metric only breaches thresholds with a `min`, so a parser that finds no
+ * warnings passes `{ max: 0 }` while disappearing tests fail `{ min: 100 }`.
+ *
+ * @returns The first breached threshold, or null when all thresholds hold.
+ */
+const findMetricThresholdBreach = (
+  thresholds: Readonly<Record<string, StepMetricThreshold>>,
+  metrics: ParsedStepMetrics | null
+): StepMetricThresholdBreach | null => {
+  for (const [metric, threshold] of Object.entries(thresholds)) {
+    const value =
+      metrics?.label === metric && typeof metrics.value === 'number' ? metrics.value : null
+
+    const breached =
+      value === null
+        ? threshold.min !== undefined
+        : (threshold.min !== undefined && value < threshold.min) ||
+          (threshold.max !== undefined && value > threshold.max)
+    if (breached) {
+      return { metric, value, threshold }
+    }
+  }
+
+  return null
+}
+
 const getTermination = (execution: CommandExecutionResult): CommandTermination => {
   if (execution.termination) {
     return execution.termination
@@ -342,24 +1040,49 @@ const getTermination = (execution: CommandExecutionResult): CommandTermination =
   }
 }
 
-const canRetryTermination = (
-  termination: CommandTermination,
-  policy: {
-    readonly retryOnTimeout: boolean
-    readonly retryOnSignal: boolean
-    readonly retryOnSpawnFailure: boolean
-  }
+const canRetryExecution = (
+  execution: CommandExecutionResult,
+  policy: NormalizedRetryPolicy
 ): boolean => {
+  const termination = getTermination(execution)
+
   switch (termination.kind) {
     case 'exited_nonzero':
-      return true
+      return matchesRetryRules(execution, policy)
     case 'timed_out':
+    case 'idle_timeout':
       return policy.retryOnTimeout
     case 'terminated_by_signal':
       return policy.retryOnSignal
     case 'spawn_failed':
       return policy.retryOnSpawnFailure
     case 'succeeded':
+    case 'cancelled':
+    case 'not_started':
       return false
   }
 }
+
+/**
+ * Checks `retryOnExitCodes` and `retryOnOutputPattern` for a non-zero exit.
+ *
+ * Without either rule every non-zero exit is retryable; with rules, any matching rule allows it.
+ */
+const matchesRetryRules = (
+  execution: CommandExecutionResult,
+  policy: NormalizedRetryPolicy
+): boolean => {
+  if (!policy.retryOnExitCodes && !policy.retryOnOutputPattern) {
+    return true
+  }
+
+  if (
+    policy.retryOnExitCodes &&
+    execution.exitCode !== null &&
+    policy.retryOnExitCodes.has(execution.exitCode)
+  ) {
+    return true
+  }
+
+  return policy.retryOnOutputPattern?.test(`${execution.stdout}\n${execution.stderr}`) === true
+}
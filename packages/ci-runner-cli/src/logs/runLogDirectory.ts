@@ -0,0 +1,49 @@
+import { readdir, rm } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+/** Number of run log directories kept when `output.keepRuns` is not set. */
+export const DEFAULT_KEEP_RUNS = 10
+
+/**
+ * Returns a new log directory below `.ci-runner/runs` and removes the oldest run directories so
+ * that at most `keepRuns` remain once the new run has written its logs.
+ *
+ * The directory itself is created by the executor when the first step log is opened. Removal
+ * failures are ignored because log retention must never fail a pipeline.
+ *
+ * @param cwd Pipeline working directory that holds the `.ci-runner/runs` directory.
+ * @param keepRuns Number of run directories to keep, including the new one.
+ * @returns Absolute log directory for the new run, or undefined when `keepRuns` is 0.
+ */
+export const prepareRunLogDirectory = async (
+  cwd: string,
+  keepRuns: number = DEFAULT_KEEP_RUNS
+): Promise<string | undefined> => {
+  const runsDirectory = resolve(cwd, '.ci-runner', 'runs')
+  await removeOldRunDirectories(runsDirectory, Math.max(0, keepRuns - 1))
+
+  return keepRuns > 0 ? resolve(runsDirectory, createRunId()) : undefined
+}
+
+const removeOldRunDirectories = async (runsDirectory: string, keep: number): Promise<void> => {
+  let runIds: string[]
+  try {
+    const entries = await readdir(runsDirectory, { withFileTypes: true })
+    runIds = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name)
+  } catch {
+    return
+  }
+
+  // Run ids start with an ISO timestamp, so sorting by name sorts oldest first.
+  const staleRunIds = runIds.sort().slice(0, Math.max(0, runIds.length - keep))
+  for (const runId of staleRunIds) {
+    await rm(resolve(runsDirectory, runId), { recursive: true, force: true }).catch(() => undefined)
+  }
+}
+
+/**
+ * Creates a sortable, file-name-safe id for one pipeline run.
+ */
+const createRunId = (): string => {
+  return `${new Date().toISOString().replace(/[:.]/gu, '-')}-${process.pid}`
+}
@@ -1,7 +1,10 @@
 import type {
+  CommandOutputStream,
+  CommandResourceUsage,
   PipelineReporter,
   PipelineRunResult,
   PipelineStep,
+  StepAttempt,
   StepResult,
 } from '../internal/core/index.js'
 
@@ -14,6 +17,9 @@ const MAX_ERROR_LINES = 60
 /** Lines of leading context kept before each error hit. */
 const ERROR_CONTEXT_LINES = 1
 
+/** Longest unterminated streamed line, in UTF-16 code units, held back before it is printed. */
+const MAX_PENDING_STREAM_LINE_LENGTH = 64 * 1024
+
 /**
  * Options for the pretty console reporter.
  */
@@ -22,6 +28,8 @@ export interface PrettyReporterOptions {
   readonly verbose: boolean
   /** ci-runner version string displayed in the start header. */
   readonly version: string
+  /** Prints step output live, prefixed with the step name, instead of after completion. */
+  readonly stream?: boolean
 }
 
 /**
@@ -29,8 +37,9 @@ export interface PrettyReporterOptions {
  *
  * In non-verbose mode, failed step output is summarized:
  * - Error-relevant lines are extracted and shown.
- * - Long output is truncated with a hint to use --verbose.
+ * - Long output is truncated with a hint to use --verbose and the step log file path.
  * - In verbose mode, all output is emitted unchanged.
+ * - In stream mode, output lines are printed while steps run and not repeated on completion.
  */
 export class PrettyReporter implements PipelineReporter {
   private readonly options: PrettyReporterOptions
@@ -38,6 +47,9 @@ export class PrettyReporter implements PipelineReporter {
   /** Step id → failing package checks extracted during onStepComplete. */
   private readonly failingPackageChecks = new Map<string, readonly FailingPackageCheck[]>()
 
+  /** Step id and stream → incomplete last line of streamed output. */
+  private readonly pendingStreamLines = new Map<string, string>()
+
   /**
    * Creates a pretty reporter.
    *
@@ -67,6 +79,40 @@ export class PrettyReporter implements PipelineReporter {
     process.stdout.write(colorize(`-> ${step.name}\n`, 'blue'))
   }
 
+  /**
+   * Prints complete output lines of a running step in stream mode.
+   *
+   * An unterminated line is held back until its newline arrives, or printed as it is once it grows
+   * past 64 KiB so that progress output without newlines cannot fill memory.
+   *
+   * @param step Running step.
+   * @param stream Output stream that produced the chunk.
+   * @param chunk Decoded output text.
+   */
+  public onStepOutput(step: PipelineStep, stream: CommandOutputStream, chunk: string): void {
+    if (!this.options.stream) {
+      return
+    }
+
+    const key = getStreamKey(step.id, stream)
+    const pendingLine = this.pendingStreamLines.get(key) ?? ''
+    const lines = chunk.split('\n')
+    const unterminated = lines.pop() ?? ''
+
+    for (const [index, line] of lines.entries()) {
+      writeStreamLine(step.name, index === 0 ? `${pendingLine}${line}` : line)
+    }
+
+    const nextPendingLine = lines.length === 0 ? `${pendingLine}${unterminated}` : unterminated
+    if (nextPendingLine.length > MAX_PENDING_STREAM_LINE_LENGTH) {
+      writeStreamLine(step.name, nextPendingLine)
+      this.pendingStreamLines.delete(key)
+      return
+    }
+
+    this.pendingStreamLines.set(key, nextPendingLine)
+  }
+
   /**
    * Handles step completion.
    *
@@ -74,6 +120,7 @@ export class PrettyReporter implements PipelineReporter {
    */
   public onStepComplete(result: StepResult): void {
     const duration = `${result.durationMs}ms`
+    this.flushStreamLines(result)
 
     // Extract failed package checks from the raw (unfiltered) output while
     // we have full access to it — used later in the pipeline summary.
@@ -86,13 +133,48 @@ export class PrettyReporter implements PipelineReporter {
         result.metrics && typeof result.metrics.value === 'number'
           ? ` (${result.metrics.value} ${result.metrics.label})`
           : ''
-      process.stdout.write(colorize(`✓ ${result.name} ${duration}${metricText}\n`, 'green'))
+      const cacheText = result.cacheHit ? ' (cached)' : ''
+      const flakyText = result.flaky ? ' (flaky)' : ''
+      process.stdout.write(
+        colorize(`✓ ${result.name} ${duration}${cacheText}${flakyText}${metricText}\n`, 'green')
+      )
+      this.printAttemptHistory(result)
       if (this.options.verbose) {
         this.printFullOutput(result)
       }
       return
     }
 
+    if (result.status === 'warning') {
+      process.stdout.write(
+        colorize(
+          `⚠ ${result.name} warning (exit ${result.output.exitCode ?? 'unknown'}, ${duration})\n`,
+          'yellow'
+        )
+      )
+      this.printAttemptHistory(result)
+      this.printSmartOutput(result)
+      return
+    }
+
+    if (result.status === 'not_run') {
+      process.stdout.write(
+        colorize(`ℹ ${result.name} not run (${formatBlockedReason(result)})\n`, 'yellow')
+      )
+      return
+    }
+
+    if (result.status === 'cancelled') {
+      process.stdout.write(
+        colorize(
+          `ℹ ${result.name} cancelled (${formatBlockedReason(result)}, ${duration})\n`,
+          'yellow'
+        )
+      )
+      this.printAttemptHistory(result)
+      return
+    }
+
     if (result.status === 'skipped') {
       process.stdout.write(
         colorize(
@@ -100,9 +182,24 @@ export class PrettyReporter implements PipelineReporter {
           'yellow'
         )
       )
+      this.printAttemptHistory(result)
+      this.printSmartOutput(result)
+      return
+    }
+
+    if (result.status === 'failed_allowed') {
+      process.stdout.write(
+        colorize(
+          `✗ ${result.name}: failed, allowed (${result.reason ?? 'no reason'}, ${duration})\n`,
+          'magenta'
+        )
+      )
+      this.printAttemptHistory(result)
+      this.printOutputAssertionFailure(result, 'magenta')
+      this.printMetricThresholdBreach(result, 'magenta')
       const missingScript = extractMissingScript(result)
       if (missingScript) {
-        process.stdout.write(colorize(`  note: missing script "${missingScript}"\n`, 'yellow'))
+        process.stdout.write(colorize(`  note: missing script "${missingScript}"\n`, 'magenta'))
         if (this.options.verbose) {
           this.printFullOutput(result)
         }
@@ -119,6 +216,9 @@ export class PrettyReporter implements PipelineReporter {
         'red'
       )
     )
+    this.printAttemptHistory(result)
+    this.printOutputAssertionFailure(result, 'red')
+    this.printMetricThresholdBreach(result, 'red')
     this.printSmartOutput(result)
   }
 
@@ -130,14 +230,25 @@ export class PrettyReporter implements PipelineReporter {
   public onPipelineComplete(result: PipelineRunResult): void {
     const summary = result.summary
     process.stdout.write('\n')
+    const failedAllowedText =
+      summary.failedAllowed > 0 ? ` failedAllowed=${summary.failedAllowed}` : ''
+    const warningsText = summary.warnings > 0 ? ` warnings=${summary.warnings}` : ''
+    const flakyText = summary.flaky > 0 ? ` flaky=${summary.flaky}` : ''
+    const notRunText = summary.notRun > 0 ? ` notRun=${summary.notRun}` : ''
+    const cancelledText = summary.cancelled > 0 ? ` cancelled=${summary.cancelled}` : ''
     process.stdout.write(
-      `Summary: total=${summary.total} passed=${summary.passed} skipped=${summary.skipped} failed=${summary.failed} timedOut=${summary.timedOut} duration=${summary.durationMs}ms\n`
+      `Summary: total=${summary.total} passed=${summary.passed} skipped=${summary.skipped} failed=${summary.failed} timedOut=${summary.timedOut}${failedAllowedText}${warningsText}${flakyText}${notRunText}${cancelledText} duration=${summary.durationMs}ms\n`
     )
 
     // Compact per-status listing with project names extracted earlier.
     const failed = result.steps.filter((s) => s.status === 'failed')
     const timedOut = result.steps.filter((s) => s.status === 'timed_out')
+    const failedAllowed = result.steps.filter((s) => s.status === 'failed_allowed')
+    const warnings = result.steps.filter((s) => s.status === 'warning')
     const skipped = result.steps.filter((s) => s.status === 'skipped')
+    const flaky = result.steps.filter((s) => s.flaky === true)
+    const notRun = result.steps.filter((s) => s.status === 'not_run')
+    const cancelled = result.steps.filter((s) => s.status === 'cancelled')
 
     for (const step of failed) {
       process.stdout.write(colorize(this.formatFailedStepSummary(step, 'failed'), 'red'))
@@ -145,11 +256,47 @@ export class PrettyReporter implements PipelineReporter {
     for (const step of timedOut) {
       process.stdout.write(colorize(this.formatFailedStepSummary(step, 'timed_out'), 'red'))
     }
+    if (failedAllowed.length > 0) {
+      process.stdout.write(
+        colorize(`  failed (allowed): ${failedAllowed.map((s) => s.name).join(', ')}\n`, 'magenta')
+      )
+    }
+    if (warnings.length > 0) {
+      process.stdout.write(
+        colorize(`  warnings: ${warnings.map((s) => s.name).join(', ')}\n`, 'yellow')
+      )
+    }
     if (skipped.length > 0) {
       process.stdout.write(
         colorize(`  skipped: ${skipped.map((s) => s.name).join(', ')}\n`, 'yellow')
       )
     }
+    if (flaky.length > 0) {
+      process.stdout.write(colorize(`  flaky: ${flaky.map((s) => s.name).join(', ')}\n`, 'yellow'))
+    }
+    if (notRun.length > 0) {
+      process.stdout.write(
+        colorize(`  not run: ${notRun.map((s) => s.name).join(', ')}\n`, 'yellow')
+      )
+    }
+    if (cancelled.length > 0) {
+      process.stdout.write(
+        colorize(`  cancelled: ${cancelled.map((s) => s.name).join(', ')}\n`, 'yellow')
+      )
+    }
+    if (summary.budgetExceeded) {
+      process.stdout.write(
+        colorize(`  time budget exceeded after ${summary.durationMs}ms\n`, 'red')
+      )
+    }
+    if (this.options.verbose) {
+      this.printResourceUsage(result.steps)
+    }
+
+    if (result.aborted) {
+      process.stdout.write(colorize('Result: CANCELLED\n', 'yellow'))
+      return
+    }
 
     if (result.exitCode === 0) {
       process.stdout.write(colorize('Result: ✅ PASS\n', 'green'))
@@ -159,6 +306,65 @@ export class PrettyReporter implements PipelineReporter {
     process.stdout.write(colorize('Result: FAIL\n', 'red'))
   }
 
+  /** Prints the violated output assertion of a step, naming the pattern and offending line. */
+  private printOutputAssertionFailure(result: StepResult, color: 'red' | 'magenta'): void {
+    const failure = result.outputAssertionFailure
+    if (!failure) {
+      return
+    }
+
+    const text =
+      failure.assertion === 'mustMatch'
+        ? `  output assertion: expected a match for /${failure.pattern}/\n`
+        : `  output assertion: unexpected match for /${failure.pattern}/: ${failure.line ?? ''}\n`
+    process.stdout.write(colorize(text, color))
+  }
+
+  /** Prints the breached metric threshold of a step, e.g. "warnings = 3 (max 0)". */
+  private printMetricThresholdBreach(result: StepResult, color: 'red' | 'magenta'): void {
+    const breach = result.metricThresholdBreach
+    if (!breach) {
+      return
+    }
+
+    const bounds = [
+      breach.threshold.min !== undefined ? `min ${breach.threshold.min}` : null,
+      breach.threshold.max !== undefined ? `max ${breach.threshold.max}` : null,
+    ]
+      .filter((bound): bound is string => bound !== null)
+      .join(', ')
+    const value = breach.value === null ? 'was not reported' : `= ${breach.value}`
+    process.stdout.write(
+      colorize(`  metric threshold: ${breach.metric} ${value} (${bounds})\n`, color)
+    )
+  }
+
+  /** Prints one line per attempt when a step needed more than one. */
+  private printAttemptHistory(result: StepResult): void {
+    if (result.attemptHistory.length < 2) {
+      return
+    }
+
+    for (const attempt of result.attemptHistory) {
+      process.stdout.write(`  ${formatAttempt(attempt)}\n`)
+    }
+  }
+
+  /** Prints CPU time and peak memory of every step that reported resource usage. */
+  private printResourceUsage(steps: readonly StepResult[]): void {
+    const lines = steps.flatMap((step) =>
+      step.resourceUsage ? [`    ${step.name}: ${formatResourceUsage(step.resourceUsage)}\n`] : []
+    )
+    if (lines.length === 0) {
+      return
+    }
+
+    process.stdout.write('  resources:\n')
+    for (const line of lines) {
+      process.stdout.write(line)
+    }
+  }
+
   /** Formats a step summary and its failed package checks when available. */
   private formatFailedStepSummary(step: StepResult, status: string): string {
     const statusLabel = formatFailureStatus(status)
@@ -176,6 +382,18 @@ export class PrettyReporter implements PipelineReporter {
     return `  ${step.name}: ${statusLabel} (${packageChecks.length} ${packageLabel})\n${lines.join('\n')}\n`
   }
 
+  /** Prints streamed output that did not end with a newline. */
+  private flushStreamLines(result: StepResult): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const key = getStreamKey(result.id, stream)
+      const pendingLine = this.pendingStreamLines.get(key)
+      if (pendingLine) {
+        writeStreamLine(result.name, pendingLine)
+      }
+      this.pendingStreamLines.delete(key)
+    }
+  }
+
   /**
    * Emits full stdout / stderr without filtering.
    *
@@ -188,6 +406,10 @@ export class PrettyReporter implements PipelineReporter {
     filteredStdout?: string,
     filteredStderr?: string
   ): void {
+    if (this.options.stream) {
+      return
+    }
+
     const stdout = (filteredStdout ?? result.output.stdout).trim()
     const stderr = (filteredStderr ?? result.output.stderr).trim()
 
@@ -202,6 +424,10 @@ export class PrettyReporter implements PipelineReporter {
       process.stdout.write(indent(stderr))
       process.stdout.write('\n')
     }
+
+    if (result.output.outputTruncated) {
+      writeLogFileHint(result)
+    }
   }
 
   /**
@@ -215,6 +441,10 @@ export class PrettyReporter implements PipelineReporter {
    * 5. Always note how many lines were hidden when truncation occurs.
    */
   private printSmartOutput(result: StepResult): void {
+    if (this.options.stream) {
+      return
+    }
+
     if (this.options.verbose) {
       this.printFullOutput(result)
       return
@@ -235,7 +465,10 @@ export class PrettyReporter implements PipelineReporter {
       return
     }
 
-    const isFailed = result.status === 'failed' || result.status === 'timed_out'
+    const isFailed =
+      result.status === 'failed' ||
+      result.status === 'failed_allowed' ||
+      result.status === 'timed_out'
 
     // For failures, try error line extraction first.
     if (isFailed) {
@@ -259,6 +492,9 @@ export class PrettyReporter implements PipelineReporter {
             )
           )
         }
+        if (hidden > 0 || truncated > 0 || result.output.outputTruncated) {
+          writeLogFileHint(result)
+        }
         return
       }
     }
@@ -276,6 +512,7 @@ export class PrettyReporter implements PipelineReporter {
         'yellow'
       )
     )
+    writeLogFileHint(result)
   }
 }
 
@@ -384,12 +621,13 @@ const indent = (text: string): string => {
     .join('\n')
 }
 
-const colorize = (text: string, color: 'red' | 'green' | 'yellow' | 'blue'): string => {
-  const colors: Record<'red' | 'green' | 'yellow' | 'blue', string> = {
+const colorize = (text: string, color: 'red' | 'green' | 'yellow' | 'blue' | 'magenta'): string => {
+  const colors: Record<'red' | 'green' | 'yellow' | 'blue' | 'magenta', string> = {
     red: '\x1b[31m',
     green: '\x1b[32m',
     yellow: '\x1b[33m',
     blue: '\x1b[34m',
+    magenta: '\x1b[35m',
   }
 
   return `${colors[color]}${text}\x1b[0m`
@@ -405,6 +643,76 @@ const extractMissingScript = (result: StepResult): string | null => {
   return match[1]
 }
 
+const getStreamKey = (stepId: string, stream: CommandOutputStream): string => {
+  return `${stepId}\u0000${stream}`
+}
+
+const writeStreamLine = (stepName: string, line: string): void => {
+  process.stdout.write(`${colorize(`[${stepName}]`, 'blue')} ${line.replace(/\r$/u, '')}\n`)
+}
+
+const writeLogFileHint = (result: StepResult): void => {
+  if (result.logFile) {
+    process.stdout.write(colorize(`  full log: ${result.logFile}\n`, 'yellow'))
+  }
+}
+
+const formatBlockedReason = (result: StepResult): string => {
+  const reason = result.reason ?? 'no reason'
+  return result.blockedBy ? `${reason}: ${result.blockedBy}` : reason
+}
+
+/**
+ * Formats an attempt as e.g. "attempt 1 failed (exit 1, 3.2s)".
+ */
+const formatAttempt = (attempt: StepAttempt): string => {
+  const duration = formatShortDuration(attempt.durationMs)
+  const termination = attempt.termination
+
+  switch (termination.kind) {
+    case 'succeeded':
+      return `attempt ${attempt.attempt} passed (${duration})`
+    case 'exited_nonzero':
+      return `attempt ${attempt.attempt} failed (exit ${termination.exitCode ?? 'unknown'}, ${duration})`
+    case 'terminated_by_signal':
+      return `attempt ${attempt.attempt} failed (signal ${termination.signal ?? 'unknown'}, ${duration})`
+    case 'spawn_failed':
+      return `attempt ${attempt.attempt} failed (spawn failed, ${duration})`
+    case 'timed_out':
+      return `attempt ${attempt.attempt} timed out (${duration})`
+    case 'idle_timeout':
+      return `attempt ${attempt.attempt} timed out without output (${duration})`
+    case 'cancelled':
+    case 'not_started':
+      return `attempt ${attempt.attempt} cancelled (${duration})`
+  }
+}
+
+const formatShortDuration = (durationMs: number): string => {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`
+}
+
+const formatResourceUsage = (usage: CommandResourceUsage): string => {
+  const cpu = `cpu ${formatShortDuration(usage.cpuUserMs)} user, ${formatShortDuration(usage.cpuSystemMs)} sys`
+  return `${cpu}, peak RSS ${formatBytes(usage.peakRssBytes)}`
+}
+
+const formatBytes = (bytes: number): string => {
+  const units = ['KiB', 'MiB', 'GiB']
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+
+  let value = bytes / 1024
+  let unitIndex = 0
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024
+    unitIndex += 1
+  }
+
+  return `${value.toFixed(1)} ${units[unitIndex]}`
+}
+
 const formatFailureStatus = (status: string): string => {
   return status === 'timed_out' ? 'timed out' : status
 }
@@ -10,9 +10,12 @@ import {
   type PipelineRunResult,
 } from './internal/core/index.js'
 
+import { FileStepCache } from './cache/fileStepCache.js'
 import { mapConfigToRun, type ExcludedPipelineStep } from './config/mapConfigToRun.js'
 import { loadCiRunnerConfig } from './config/loadConfig.js'
 import type { CiRunnerTarget, CliOutputFormat } from './config/types.js'
+import type { ConfigIssue } from './config/validateConfig.js'
+import { prepareRunLogDirectory } from './logs/runLogDirectory.js'
 import { createDefaultStepParsers } from './parsers/defaultStepParsers.js'
 import { PrettyReporter } from './reporters/prettyReporter.js'
 import { createWatchIgnoreMatcher, normalizeWatchPath } from './watch/watchIgnoreMatcher.js'
@@ -20,6 +23,9 @@ import { createWatchIgnoreMatcher, normalizeWatchPath } from './watch/watchIgnor
 const require = createRequire(import.meta.url)
 const ciRunnerVersion: string = require('../package.json').version as string
 
+/** Exit code used when a single run is interrupted by `SIGINT` or `SIGTERM` (128 + SIGINT). */
+export const CANCELLED_EXIT_CODE = 130
+
 /**
  * Runtime options for a CLI execution.
  */
@@ -38,8 +44,22 @@ export interface RunCliPipelineOptions {
   readonly formatProvided?: true
   /** Verbose output mode. */
   readonly verbose: boolean
+  /** Prints step output live in pretty format when true. */
+  readonly stream?: boolean
   /** Enables fail-fast behavior. */
   readonly failFast: boolean
+  /** Fails the run on steps with a `warning` status when true. */
+  readonly strict?: boolean
+  /** Treats config warnings as errors when true. */
+  readonly strictConfig?: boolean
+  /** Optional concurrency override for the config value. */
+  readonly concurrency?: number
+  /** Optional total run budget override for the config `timeoutMs`. */
+  readonly maxDurationMs?: number
+  /** Uses the step result cache for steps with inputs when true. */
+  readonly cache?: boolean
+  /** Writes complete step output to `.ci-runner/runs` when true. */
+  readonly logs?: boolean
   /** Enables watch mode. */
   readonly watch: boolean
 }
@@ -57,7 +77,10 @@ interface WatchController {
  * @returns Final exit code.
  */
 export const runCliPipeline = async (options: RunCliPipelineOptions): Promise<number> => {
-  const loadedConfig = await loadCiRunnerConfig(options.cwd, options.configPath)
+  const loadedConfig = await loadCiRunnerConfig(options.cwd, options.configPath, {
+    strict: options.strictConfig,
+  })
+  printConfigWarnings(loadedConfig.warnings)
   if (options.listTargets) {
     printConfiguredTargets(loadedConfig.config.targets ?? [], options.format)
     return 0
@@ -69,7 +92,7 @@ export const runCliPipeline = async (options: RunCliPipelineOptions): Promise<nu
       : (loadedConfig.config.output?.format ?? options.format)
   const effectiveVerbose = loadedConfig.config.output?.verbose ?? options.verbose
 
-  const execute = async (): Promise<PipelineRunResult> => {
+  const execute = async (signal?: AbortSignal): Promise<PipelineRunResult> => {
     const mappedRun = mapConfigToRun(
       loadedConfig.config,
       options.cwd,
@@ -83,23 +106,42 @@ export const runCliPipeline = async (options: RunCliPipelineOptions): Promise<nu
 
     const runner = createPipelineRunner({
       ...mappedRun,
+      concurrency: options.concurrency ?? mappedRun.concurrency,
+      timeoutMs: options.maxDurationMs ?? mappedRun.timeoutMs,
+      strict: options.strict,
       executor: createNodeCommandExecutor(),
       parserResolver: parserRegistry,
+      cache:
+        options.cache === false
+          ? undefined
+          : new FileStepCache({ cwd: mappedRun.cwd, env: loadedConfig.config.env }),
+      measureResourceUsage: effectiveVerbose,
+      logDirectory:
+        options.logs === false
+          ? undefined
+          : await prepareRunLogDirectory(mappedRun.cwd, loadedConfig.config.output?.keepRuns),
       reporters:
         effectiveFormat === 'pretty'
-          ? [new PrettyReporter({ verbose: effectiveVerbose, version: ciRunnerVersion })]
+          ? [
+              new PrettyReporter({
+                verbose: effectiveVerbose,
+                version: ciRunnerVersion,
+                stream: options.stream,
+              }),
+            ]
           : [],
+      signal,
     })
 
     return await runner.run()
   }
 
   if (!options.watch) {
-    const result = await execute()
+    const result = await executeUntilInterrupted(execute)
     if (effectiveFormat === 'json') {
       process.stdout.write(`${formatPipelineResultAsJson(result)}\n`)
     }
-    return result.exitCode
+    return result.aborted ? CANCELLED_EXIT_CODE : result.exitCode
   }
 
   return await runWatchLoop(
@@ -111,6 +153,38 @@ export const runCliPipeline = async (options: RunCliPipelineOptions): Promise<nu
   )
 }
 
+/**
+ * Runs once and cancels the run on the first `SIGINT` or `SIGTERM`.
+ *
+ * Running step trees are terminated and the remaining steps are reported as cancelled, so
+ * reporters still receive a complete result. A second signal falls back to the default handler.
+ */
+const executeUntilInterrupted = async (
+  execute: (signal?: AbortSignal) => Promise<PipelineRunResult>
+): Promise<PipelineRunResult> => {
+  const controller = new AbortController()
+  const cancel = (): void => {
+    process.off('SIGINT', cancel)
+    process.off('SIGTERM', cancel)
+    controller.abort()
+  }
+
+  process.on('SIGINT', cancel)
+  process.on('SIGTERM', cancel)
+  try {
+    return await execute(controller.signal)
+  } finally {
+    process.off('SIGINT', cancel)
+    process.off('SIGTERM', cancel)
+  }
+}
+
+const printConfigWarnings = (warnings: readonly ConfigIssue[]): void => {
+  for (const warning of warnings) {
+    process.stderr.write(`Warning: ${warning.message}\n`)
+  }
+}
+
 const printExcludedStepHints = (
   excludedSteps: readonly ExcludedPipelineStep[],
   format: CliOutputFormat
@@ -176,7 +250,7 @@ const runWatchLoop = async (
   configFilePath: string,
   format: CliOutputFormat,
   watchExcludes: readonly string[] | undefined,
-  execute: () => Promise<PipelineRunResult>
+  execute: (signal?: AbortSignal) => Promise<PipelineRunResult>
 ): Promise<number> => {
   const initialResult = await execute()
   if (format === 'json') {
@@ -186,30 +260,38 @@ const runWatchLoop = async (
   process.stdout.write('Watch mode enabled. Waiting for file changes...\n')
 
   let lastExitCode = initialResult.exitCode
-  let running = false
+  let activeRun: Promise<void> | null = null
+  let activeRunController: AbortController | null = null
   let rerunPending = false
   let debounceHandle: NodeJS.Timeout | null = null
   const shouldIgnorePath = createWatchIgnoreMatcher(watchExcludes)
 
-  const runWithLock = async (): Promise<void> => {
-    if (running) {
+  const runLoop = async (): Promise<void> => {
+    do {
+      rerunPending = false
+      activeRunController = new AbortController()
+      const result = await execute(activeRunController.signal)
+      if (!result.aborted) {
+        lastExitCode = result.exitCode
+      }
+      if (format === 'json') {
+        process.stdout.write(`${formatPipelineResultAsJson(result)}\n`)
+      }
+    } while (rerunPending)
+  }
+
+  const runWithLock = (): void => {
+    if (activeRun) {
+      // A change during a run makes its result stale, so stop it and start over.
       rerunPending = true
+      activeRunController?.abort()
       return
     }
 
-    running = true
-    try {
-      do {
-        rerunPending = false
-        const result = await execute()
-        lastExitCode = result.exitCode
-        if (format === 'json') {
-          process.stdout.write(`${formatPipelineResultAsJson(result)}\n`)
-        }
-      } while (rerunPending)
-    } finally {
-      running = false
-    }
+    activeRun = runLoop().finally(() => {
+      activeRun = null
+      activeRunController = null
+    })
   }
 
   const watcher = createWatcher(cwd, configFilePath, shouldIgnorePath, () => {
@@ -217,9 +299,7 @@ const runWatchLoop = async (
       clearTimeout(debounceHandle)
     }
 
-    debounceHandle = setTimeout(() => {
-      void runWithLock()
-    }, 250)
+    debounceHandle = setTimeout(runWithLock, 250)
   })
   if (!watcher.supported) {
     return initialResult.exitCode
@@ -240,6 +320,8 @@ const runWatchLoop = async (
       if (debounceHandle) {
         clearTimeout(debounceHandle)
       }
+      rerunPending = false
+      activeRunController?.abort()
       resolve()
     }
 
@@ -254,6 +336,8 @@ const runWatchLoop = async (
     process.on('SIGTERM', stop)
   })
 
+  await activeRun
+
   return lastExitCode
 }
 
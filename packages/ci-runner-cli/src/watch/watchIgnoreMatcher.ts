@@ -1,3 +1,9 @@
+import {
+  containsWildcard,
+  globToRegExp,
+  stripLeadingCurrentDirectory,
+} from '../glob/globPattern.js'
+
 const DEFAULT_IGNORED_SEGMENTS = new Set<string>([
   'node_modules',
   '.git',
@@ -9,6 +15,7 @@ const DEFAULT_IGNORED_SEGMENTS = new Set<string>([
   '.vite',
   '.vite-temp',
   '.turbo',
+  '.ci-runner',
 ])
 
 const DEFAULT_IGNORED_FILE_SUFFIXES = ['.tsbuildinfo', '.tsbuildinfo.build']
@@ -85,54 +92,3 @@ const compileExcludePattern = (pattern: string): CompiledMatcher => {
     return pathRegex.test(normalizedPath)
   }
 }
-
-const stripLeadingCurrentDirectory = (pattern: string): string => {
-  if (pattern.startsWith('./')) {
-    return pattern.slice(2)
-  }
-
-  return pattern
-}
-
-const containsWildcard = (value: string): boolean => {
-  return value.includes('*')
-}
-
-const globToRegExp = (pattern: string): RegExp => {
-  let regex = '^'
-
-  for (let index = 0; index < pattern.length; index += 1) {
-    const character = pattern[index]
-    if (!character) {
-      continue
-    }
-
-    if (character === '*') {
-      const nextCharacter = pattern[index + 1]
-      const afterNextCharacter = pattern[index + 2]
-      if (nextCharacter === '*' && afterNextCharacter === '/') {
-        regex += '(?:.*/)?'
-        index += 2
-        continue
-      }
-
-      if (nextCharacter === '*') {
-        regex += '.*'
-        index += 1
-        continue
-      }
-
-      regex += '[^/]*'
-      continue
-    }
-
-    regex += escapeRegExpCharacter(character)
-  }
-
-  regex += '$'
-  return new RegExp(regex)
-}
-
-const escapeRegExpCharacter = (character: string): string => {
-  return /[\\^$.*+?()[\]{}|]/.test(character) ? `\\${character}` : character
-}
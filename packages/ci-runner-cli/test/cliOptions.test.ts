@@ -18,6 +18,8 @@ describe('parseCliOptions', () => {
         '--verbose',
         '--watch',
         '--fail-fast',
+        '--strict',
+        '--strict-config',
       ],
       baseCwd
     )
@@ -27,11 +29,17 @@ describe('parseCliOptions', () => {
       configPath: 'ci.config.ts',
       target: 'lint',
       listTargets: false,
+      printSchema: false,
       format: 'json',
       formatProvided: true,
       verbose: true,
+      stream: false,
       watch: true,
       failFast: true,
+      strict: true,
+      strictConfig: true,
+      cache: true,
+      logs: true,
       help: false,
     })
   })
@@ -57,12 +65,67 @@ describe('parseCliOptions', () => {
     expect(getCliHelpText()).toContain('Usage: ci-runner')
   })
 
+  it('enables schema printing mode for the schema command', () => {
+    expect(parseCliOptions(['schema'], baseCwd).printSchema).toBe(true)
+    expect(parseCliOptions([], baseCwd).printSchema).toBe(false)
+    expect(() => parseCliOptions(['--verbose', 'schema'], baseCwd)).toThrow(
+      'Unknown argument: schema'
+    )
+  })
+
   it('enables target listing mode', () => {
     const options = parseCliOptions(['--list-targets'], baseCwd)
 
     expect(options.listTargets).toBe(true)
   })
 
+  it('parses the concurrency limit', () => {
+    expect(parseCliOptions(['--concurrency', '4'], baseCwd).concurrency).toBe(4)
+    expect(parseCliOptions(['--concurrency=2'], baseCwd).concurrency).toBe(2)
+    expect(() => parseCliOptions(['--concurrency', '0'], baseCwd)).toThrow(
+      '--concurrency must be a positive integer'
+    )
+  })
+
+  it('parses the maximum run duration with optional units', () => {
+    expect(parseCliOptions(['--max-duration', '90000'], baseCwd).maxDurationMs).toBe(90_000)
+    expect(parseCliOptions(['--max-duration=90s'], baseCwd).maxDurationMs).toBe(90_000)
+    expect(parseCliOptions(['--max-duration=10m'], baseCwd).maxDurationMs).toBe(600_000)
+    expect(parseCliOptions(['--max-duration', '1h'], baseCwd).maxDurationMs).toBe(3_600_000)
+    expect(() => parseCliOptions(['--max-duration', '0'], baseCwd)).toThrow(
+      '--max-duration must be a positive duration such as 90000, 90s, or 10m'
+    )
+    expect(() => parseCliOptions(['--max-duration', '5 min'], baseCwd)).toThrow(
+      '--max-duration must be a positive duration'
+    )
+  })
+
+  it('enables live output streaming', () => {
+    expect(parseCliOptions([], baseCwd).stream).toBe(false)
+    expect(parseCliOptions(['--stream'], baseCwd).stream).toBe(true)
+  })
+
+  it('disables the step cache', () => {
+    expect(parseCliOptions([], baseCwd).cache).toBe(true)
+    expect(parseCliOptions(['--no-cache'], baseCwd).cache).toBe(false)
+  })
+
+  it('disables step log files', () => {
+    expect(parseCliOptions([], baseCwd).logs).toBe(true)
+    expect(parseCliOptions(['--no-logs'], baseCwd).logs).toBe(false)
+  })
+
+  it('keeps strict runs and strict config validation separate', () => {
+    expect(parseCliOptions(['--strict'], baseCwd)).toMatchObject({
+      strict: true,
+      strictConfig: false,
+    })
+    expect(parseCliOptions(['--strict-config'], baseCwd)).toMatchObject({
+      strict: false,
+      strictConfig: true,
+    })
+  })
+
   it('throws for unknown options', () => {
     expect(() => parseCliOptions(['--unknown'], baseCwd)).toThrow('Unknown argument: --unknown')
   })
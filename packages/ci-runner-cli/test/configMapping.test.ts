@@ -92,11 +92,36 @@ describe('mapConfigToRun', () => {
     expect(runConfig.continueOnError).toBe(false)
   })
 
+  it('maps the run budget, kill signals and grace periods', () => {
+    const config: CiRunnerConfig = {
+      timeoutMs: 600000,
+      killSignal: 'SIGINT',
+      killGracePeriodMs: 30000,
+      steps: [
+        {
+          id: 'e2e',
+          name: 'E2E',
+          command: 'pnpm run e2e',
+          killSignal: 'SIGTERM',
+          killGracePeriodMs: 1000,
+        },
+      ],
+    }
+
+    const runConfig = mapConfigToRun(config, baseCwd, false)
+
+    expect(runConfig.timeoutMs).toBe(600000)
+    expect(runConfig.killSignal).toBe('SIGINT')
+    expect(runConfig.killGracePeriodMs).toBe(30000)
+    expect(runConfig.steps[0]).toMatchObject({ killSignal: 'SIGTERM', killGracePeriodMs: 1000 })
+  })
+
   it('maps output capture limits with per-step overrides', () => {
     const config: CiRunnerConfig = {
       output: {
         captureOutput: false,
         maxOutputBytes: 1024,
+        truncateStrategy: 'head',
       },
       steps: [
         {
@@ -114,6 +139,7 @@ describe('mapConfigToRun', () => {
 
     expect(runConfig.captureOutput).toBe(false)
     expect(runConfig.maxOutputBytes).toBe(1024)
+    expect(runConfig.truncateStrategy).toBe('head')
     expect(runConfig.steps[0]).toMatchObject({
       captureOutput: true,
       maxOutputBytes: 128,
@@ -155,6 +181,46 @@ describe('mapConfigToRun', () => {
     expect(runConfig.steps.map((step) => step.id)).toEqual(['lint'])
   })
 
+  it('drops dependencies on steps outside the selected target', () => {
+    const config: CiRunnerConfig = {
+      steps: [
+        { id: 'typecheck', name: 'Typecheck', command: 'pnpm run typecheck' },
+        { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+        {
+          id: 'build',
+          name: 'Build',
+          command: 'pnpm run build',
+          dependsOn: ['typecheck', 'lint'],
+        },
+      ],
+      targets: [{ id: 'no-typecheck', name: 'No Typecheck', excludeStepIds: ['typecheck'] }],
+    }
+
+    const runConfig = mapConfigToRun(config, baseCwd, false, 'no-typecheck')
+
+    expect(runConfig.steps.find((step) => step.id === 'build')?.dependsOn).toEqual(['lint'])
+  })
+
+  it('enables failOnFlaky for retried steps of a target that fails on flaky steps', () => {
+    const config: CiRunnerConfig = {
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+        { id: 'e2e', name: 'E2E', command: 'pnpm run e2e', retry: { maxAttempts: 2 } },
+      ],
+      targets: [
+        { id: 'dev', name: 'Dev' },
+        { id: 'release', name: 'Release', failOnFlaky: true },
+      ],
+    }
+
+    const devRun = mapConfigToRun(config, baseCwd, false, 'dev')
+    const releaseRun = mapConfigToRun(config, baseCwd, false, 'release')
+
+    expect(devRun.steps[1]?.retry).toEqual({ maxAttempts: 2 })
+    expect(releaseRun.steps[0]?.retry).toBeUndefined()
+    expect(releaseRun.steps[1]?.retry).toEqual({ maxAttempts: 2, failOnFlaky: true })
+  })
+
   it('throws for unknown target id', () => {
     const config: CiRunnerConfig = {
       steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint' }],
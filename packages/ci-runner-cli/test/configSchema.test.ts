@@ -0,0 +1,141 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { ciRunnerConfigSchema, formatCiRunnerConfigSchema } from '../src/config/configSchema.js'
+import { loadCiRunnerConfig } from '../src/config/loadConfig.js'
+
+const createdDirectories: string[] = []
+
+afterEach(async () => {
+  for (const directory of createdDirectories.splice(0)) {
+    await rm(directory, { recursive: true, force: true })
+  }
+})
+
+const fullConfig = {
+  $schema: './node_modules/@number10/ci-runner-cli/dist/ci.config.schema.json',
+  continueOnError: true,
+  concurrency: 2,
+  timeoutMs: 60_000,
+  env: { CI: 'true' },
+  killSignal: 'SIGINT',
+  killGracePeriodMs: 1000,
+  cwd: '.',
+  output: {
+    format: 'json',
+    verbose: true,
+    parseMetrics: true,
+    captureOutput: true,
+    maxOutputBytes: 4096,
+    truncateStrategy: 'tail',
+    keepRuns: 5,
+  },
+  watch: { exclude: ['dist/**'] },
+  targets: [
+    {
+      id: 'quick',
+      name: 'Quick',
+      description: 'Lint only',
+      includeStepIds: ['lint'],
+      excludeStepIds: ['test'],
+      failOnFlaky: true,
+    },
+  ],
+  steps: [
+    { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+    {
+      id: 'test',
+      name: 'Test',
+      command: 'pnpm run test',
+      enabled: true,
+      cwd: 'packages/app',
+      env: { NODE_ENV: 'test' },
+      optional: false,
+      timeoutMs: 30_000,
+      idleTimeoutMs: 10_000,
+      killSignal: 'SIGTERM',
+      killGracePeriodMs: 500,
+      captureOutput: true,
+      maxOutputBytes: 2048,
+      pipefail: true,
+      retry: {
+        maxAttempts: 3,
+        delayMs: 100,
+        backoffMultiplier: 2,
+        maxDelayMs: 1000,
+        jitter: 0.5,
+        retryOnTimeout: true,
+        retryOnSignal: true,
+        retryOnSpawnFailure: true,
+        retryOnExitCodes: [1],
+        retryOnOutputPattern: 'ECONNRESET',
+        failOnFlaky: true,
+      },
+      exitCodes: { success: [0], warning: [2], skip: [3] },
+      assertOutput: { mustMatch: ['passed'], mustNotMatch: ['^FAIL'] },
+      thresholds: { tests_passed: { min: 1, max: 500 } },
+      when: { env: { CI: 'true' } },
+      dependsOn: ['lint'],
+      inputs: ['src/**'],
+      outputs: ['coverage/**'],
+    },
+  ],
+}
+
+const { definitions } = ciRunnerConfigSchema
+
+const getSchemaKeys = (schema: { readonly properties: object }): string[] => {
+  return Object.keys(schema.properties).sort()
+}
+
+describe('ciRunnerConfigSchema', () => {
+  it('lists exactly the options read by the config parser', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-schema-'))
+    createdDirectories.push(directory)
+    await writeFile(resolve(directory, 'ci.config.json'), JSON.stringify(fullConfig), 'utf8')
+
+    const { config, warnings } = await loadCiRunnerConfig(directory, undefined, { strict: true })
+    const step = config.steps[1]
+
+    expect(warnings).toEqual([])
+    expect(['$schema', ...Object.keys(config)].sort()).toEqual(getSchemaKeys(ciRunnerConfigSchema))
+    expect(Object.keys(step ?? {}).sort()).toEqual(getSchemaKeys(definitions.step))
+    expect(Object.keys(step?.retry ?? {}).sort()).toEqual(getSchemaKeys(definitions.retry))
+    expect(Object.keys(step?.exitCodes ?? {}).sort()).toEqual(getSchemaKeys(definitions.exitCodes))
+    expect(Object.keys(step?.assertOutput ?? {}).sort()).toEqual(
+      getSchemaKeys(definitions.outputAssertions)
+    )
+    expect(Object.keys(step?.thresholds?.tests_passed ?? {}).sort()).toEqual(
+      getSchemaKeys(definitions.metricThreshold)
+    )
+    expect(Object.keys(step?.when ?? {}).sort()).toEqual(getSchemaKeys(definitions.condition))
+    expect(Object.keys(config.targets?.[0] ?? {}).sort()).toEqual(getSchemaKeys(definitions.target))
+    expect(Object.keys(config.output ?? {}).sort()).toEqual(getSchemaKeys(definitions.output))
+    expect(Object.keys(config.watch ?? {}).sort()).toEqual(getSchemaKeys(definitions.watch))
+  })
+
+  it('requires the step fields that the config parser rejects when missing', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-schema-required-'))
+    createdDirectories.push(directory)
+
+    for (const key of definitions.step.required) {
+      const step: Record<string, unknown> = { id: 'lint', name: 'Lint', command: 'pnpm run lint' }
+      delete step[key]
+      await writeFile(resolve(directory, 'ci.config.json'), JSON.stringify({ steps: [step] }))
+
+      await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+        `steps[0].${key} must be a non-empty string`
+      )
+    }
+  })
+
+  it('formats the schema as pretty-printed JSON', () => {
+    const formatted = formatCiRunnerConfigSchema()
+
+    expect(formatted.endsWith('}\n')).toBe(true)
+    expect(JSON.parse(formatted)).toEqual(ciRunnerConfigSchema)
+  })
+})
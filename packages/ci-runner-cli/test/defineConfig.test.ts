@@ -0,0 +1,53 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+
+import { defineConfig } from '../src/config/defineConfig.js'
+import type { CiRunnerConfig } from '../src/config/types.js'
+
+describe('defineConfig', () => {
+  it('returns the config unchanged', () => {
+    const config = {
+      steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint' }],
+    }
+
+    expect(defineConfig(config)).toBe(config)
+  })
+
+  it('infers step ids as literal types for step references', () => {
+    const config = defineConfig({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+        { id: 'test', name: 'Test', command: 'pnpm run test', dependsOn: ['lint'] },
+      ],
+      targets: [{ id: 'quick', name: 'Quick', includeStepIds: ['lint'], excludeStepIds: ['test'] }],
+    })
+
+    expectTypeOf<(typeof config.steps)[number]['id']>().toEqualTypeOf<'lint' | 'test'>()
+    expectTypeOf(config).toExtend<CiRunnerConfig>()
+  })
+
+  it('rejects unknown step ids at compile time', () => {
+    defineConfig({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+        // @ts-expect-error 'lnit' is not a declared step id.
+        { id: 'test', name: 'Test', command: 'pnpm run test', dependsOn: ['lnit'] },
+      ],
+    })
+
+    defineConfig({
+      steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint' }],
+      targets: [
+        // @ts-expect-error 'tests' is not a declared step id.
+        { id: 'quick', name: 'Quick', includeStepIds: ['tests'] },
+      ],
+    })
+
+    defineConfig({
+      steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint' }],
+      targets: [
+        // @ts-expect-error 'build' is not a declared step id.
+        { id: 'quick', name: 'Quick', excludeStepIds: ['build'] },
+      ],
+    })
+  })
+})
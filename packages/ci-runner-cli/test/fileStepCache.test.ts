@@ -0,0 +1,141 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { FileStepCache } from '../src/cache/fileStepCache.js'
+import type { PipelineStep, StepResult } from '../src/internal/core/index.js'
+
+const createdDirectories: string[] = []
+
+afterEach(async () => {
+  for (const directory of createdDirectories.splice(0)) {
+    await rm(directory, { recursive: true, force: true })
+  }
+})
+
+const createWorkspace = async (): Promise<string> => {
+  const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-cache-'))
+  createdDirectories.push(directory)
+
+  await mkdir(resolve(directory, 'src/nested'), { recursive: true })
+  await writeFile(resolve(directory, 'src/index.ts'), 'export const a = 1\n', 'utf8')
+  await writeFile(resolve(directory, 'src/nested/util.ts'), 'export const b = 2\n', 'utf8')
+  await writeFile(resolve(directory, 'src/notes.md'), '# notes\n', 'utf8')
+
+  return directory
+}
+
+const createPassedResult = (step: PipelineStep): StepResult => {
+  return {
+    id: step.id,
+    name: step.name,
+    status: 'passed',
+    attempts: 1,
+    retried: false,
+    startedAt: 0,
+    finishedAt: 10,
+    durationMs: 10,
+    output: { exitCode: 0, signal: null, stdout: 'lint ok', stderr: '' },
+    termination: { kind: 'succeeded', exitCode: 0, signal: null },
+    attemptHistory: [],
+    metrics: { label: 'warnings', value: 0 },
+  }
+}
+
+describe('FileStepCache', () => {
+  it('does not cache steps without inputs', async () => {
+    const directory = await createWorkspace()
+    const cache = new FileStepCache({ cwd: directory })
+
+    await expect(cache.getKey({ id: 'lint', name: 'Lint', command: 'lint' })).resolves.toBeNull()
+  })
+
+  it('returns a stored result while inputs are unchanged', async () => {
+    const directory = await createWorkspace()
+    const cache = new FileStepCache({ cwd: directory })
+    const step: PipelineStep = {
+      id: 'lint',
+      name: 'Lint',
+      command: 'lint',
+      inputs: ['src/**/*.ts'],
+    }
+
+    const key = await cache.getKey(step)
+    expect(key).not.toBeNull()
+    await cache.write(step, key ?? '', createPassedResult(step))
+
+    await writeFile(resolve(directory, 'src/notes.md'), '# changed\n', 'utf8')
+    expect(await cache.getKey(step)).toBe(key)
+    await expect(cache.read(step, key ?? '')).resolves.toEqual({
+      output: { exitCode: 0, signal: null, stdout: 'lint ok', stderr: '' },
+      metrics: { label: 'warnings', value: 0 },
+      durationMs: 10,
+    })
+  })
+
+  it('changes the key when inputs, command, env, or pass criteria change', async () => {
+    const directory = await createWorkspace()
+    const step: PipelineStep = {
+      id: 'lint',
+      name: 'Lint',
+      command: 'lint',
+      inputs: ['src', '!src/notes.md'],
+    }
+    const key = await new FileStepCache({ cwd: directory }).getKey(step)
+
+    await writeFile(resolve(directory, 'src/notes.md'), '# changed\n', 'utf8')
+    expect(await new FileStepCache({ cwd: directory }).getKey(step)).toBe(key)
+
+    expect(
+      await new FileStepCache({ cwd: directory }).getKey({ ...step, command: 'lint --fix' })
+    ).not.toBe(key)
+    expect(
+      await new FileStepCache({ cwd: directory, env: { NODE_ENV: 'production' } }).getKey(step)
+    ).not.toBe(key)
+    expect(
+      await new FileStepCache({ cwd: directory }).getKey({
+        ...step,
+        assertOutput: { mustMatch: ['^ok$'] },
+      })
+    ).not.toBe(key)
+    expect(
+      await new FileStepCache({ cwd: directory }).getKey({
+        ...step,
+        exitCodes: { success: [0, 1] },
+      })
+    ).not.toBe(key)
+    expect(
+      await new FileStepCache({ cwd: directory }).getKey({
+        ...step,
+        thresholds: { warnings: { max: 0 } },
+      })
+    ).not.toBe(key)
+
+    await writeFile(resolve(directory, 'src/nested/util.ts'), 'export const b = 3\n', 'utf8')
+    expect(await new FileStepCache({ cwd: directory }).getKey(step)).not.toBe(key)
+  })
+
+  it('misses when configured outputs changed since the cached run', async () => {
+    const directory = await createWorkspace()
+    await mkdir(resolve(directory, 'dist'))
+    await writeFile(resolve(directory, 'dist/index.js'), 'built\n', 'utf8')
+
+    const cache = new FileStepCache({ cwd: directory })
+    const step: PipelineStep = {
+      id: 'build',
+      name: 'Build',
+      command: 'build',
+      inputs: ['src/**'],
+      outputs: ['dist/**'],
+    }
+    const key = (await cache.getKey(step)) ?? ''
+    await cache.write(step, key, createPassedResult(step))
+
+    await expect(cache.read(step, key)).resolves.not.toBeNull()
+
+    await rm(resolve(directory, 'dist'), { recursive: true })
+    await expect(cache.read(step, key)).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { createNodeCommandExecutor } from '../../../src/internal/core/execution/nodeCommandExecutor.js'
+
+const createdDirectories: string[] = []
+
+afterEach(async () => {
+  for (const directory of createdDirectories.splice(0)) {
+    await rm(directory, { recursive: true, force: true })
+  }
+})
+
+const createLogDirectory = async (): Promise<string> => {
+  const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-executor-'))
+  createdDirectories.push(directory)
+  return directory
+}
+
+describe('createNodeCommandExecutor', () => {
+  it('writes the complete output to the log file', async () => {
+    const logFile = resolve(await createLogDirectory(), 'runs', 'step.log')
+    const executor = createNodeCommandExecutor()
+
+    const result = await executor({
+      command: 'node -e "process.stdout.write(\'x\'.repeat(4096))"',
+      cwd: process.cwd(),
+      env: {},
+      maxOutputBytes: 16,
+      logFile,
+    })
+
+    expect(result.outputTruncated).toBe(true)
+    await expect(readFile(logFile, 'utf8')).resolves.toBe('x'.repeat(4096))
+  })
+
+  it('measures resource usage only when requested', async () => {
+    const executor = createNodeCommandExecutor()
+    const request = { command: 'node -e ""', cwd: process.cwd(), env: {} }
+
+    const unmeasured = await executor(request)
+    const measured = await executor({ ...request, measureResourceUsage: true })
+
+    expect(unmeasured.resourceUsage).toBeUndefined()
+    if (process.platform === 'linux') {
+      expect(measured.resourceUsage?.cpuUserMs).toBeGreaterThan(0)
+    }
+  })
+
+  it('does not start the command when aborted while the log file is opened', async () => {
+    const directory = await createLogDirectory()
+    const controller = new AbortController()
+    const executor = createNodeCommandExecutor()
+
+    const execution = executor({
+      command: "node -e \"require('node:fs').writeFileSync('started', '')\"",
+      cwd: directory,
+      env: {},
+      logFile: resolve(directory, 'runs', 'step.log'),
+      signal: controller.signal,
+    })
+    controller.abort()
+    const result = await execution
+
+    expect(result.termination).toMatchObject({ kind: 'cancelled' })
+    await expect(readFile(resolve(directory, 'started'))).rejects.toThrow()
+  })
+})
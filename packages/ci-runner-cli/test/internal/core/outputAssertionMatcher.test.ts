@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+
+import { createOutputAssertionMatcher } from '../../../src/internal/core/runner/outputAssertionMatcher.js'
+
+const emptyOutput = { exitCode: 0, signal: null, stdout: '', stderr: '' }
+
+describe('createOutputAssertionMatcher', () => {
+  it('matches lines split across chunks and streams', () => {
+    const matcher = createOutputAssertionMatcher({
+      mustMatch: ['^Test Files\\s+\\d+ passed'],
+      mustNotMatch: ['DeprecationWarning'],
+    })
+
+    matcher.write('stdout', 'Test Fi')
+    matcher.write('stderr', '(node:42) Deprecation')
+    matcher.write('stdout', 'les  3 passed (3)\r\n')
+    matcher.write('stderr', 'Warning: Buffer() is deprecated\n')
+
+    expect(matcher.finish(emptyOutput)).toEqual({
+      assertion: 'mustNotMatch',
+      pattern: 'DeprecationWarning',
+      line: '(node:42) DeprecationWarning: Buffer() is deprecated',
+    })
+  })
+
+  it('limits the buffered part of a long unterminated line', () => {
+    const matcher = createOutputAssertionMatcher({
+      mustMatch: ['^done$'],
+      mustNotMatch: ['ERROR'],
+    })
+
+    for (let index = 0; index < 20_000; index += 1) {
+      matcher.write('stdout', index === 10_000 ? '\rERROR 50%' : `\r[${'='.repeat(20)}] ${index}`)
+    }
+    matcher.write('stdout', '\ndone\n')
+
+    const failure = matcher.finish(emptyOutput)
+    expect(failure).toMatchObject({ assertion: 'mustNotMatch', pattern: 'ERROR' })
+    expect(failure?.line?.length).toBeLessThanOrEqual(64 * 1024 + 32)
+  })
+
+  it('matches captured output when no chunk was streamed', () => {
+    const matcher = createOutputAssertionMatcher({ mustMatch: ['^ok$'] })
+
+    expect(matcher.finish({ ...emptyOutput, stdout: 'ok' })).toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { createOutputCapture } from '../../../src/internal/core/execution/outputCapture.js'
+
+const writeAll = (
+  capture: ReturnType<typeof createOutputCapture>,
+  chunks: readonly string[]
+): void => {
+  for (const chunk of chunks) {
+    capture.write(Buffer.from(chunk))
+  }
+}
+
+describe('createOutputCapture', () => {
+  it('keeps everything below the limit', () => {
+    const capture = createOutputCapture({ maxOutputBytes: 16 })
+    writeAll(capture, ['abc', 'def\n'])
+
+    expect(capture.read()).toEqual({ text: 'abcdef\n', truncated: false, droppedBytes: 0 })
+  })
+
+  it('keeps the first bytes with the head strategy', () => {
+    const capture = createOutputCapture({ maxOutputBytes: 4, truncateStrategy: 'head' })
+    writeAll(capture, ['ab', 'cdef', 'gh'])
+
+    expect(capture.read()).toEqual({
+      text: 'abcd\n... [4 bytes truncated] ...\n',
+      truncated: true,
+      droppedBytes: 4,
+    })
+  })
+
+  it('keeps the last bytes with the tail strategy', () => {
+    const capture = createOutputCapture({ maxOutputBytes: 4, truncateStrategy: 'tail' })
+    writeAll(capture, ['ab', 'cdef', 'gh'])
+
+    expect(capture.read()).toEqual({
+      text: '... [4 bytes truncated] ...\nefgh',
+      truncated: true,
+      droppedBytes: 4,
+    })
+  })
+
+  it('keeps both ends by default', () => {
+    const capture = createOutputCapture({ maxOutputBytes: 8 })
+    writeAll(capture, ['line1\n', 'noise\n'.repeat(100), 'end\n'])
+
+    const captured = capture.read()
+
+    expect(captured.text).toBe('line\n... [602 bytes truncated] ...\nend\n')
+    expect(captured.droppedBytes).toBe(610 - 8)
+  })
+
+  it('cuts on character boundaries instead of splitting multi-byte characters', () => {
+    const capture = createOutputCapture({ maxOutputBytes: 6 })
+    writeAll(capture, ['é€', 'xxxx', '€é'])
+
+    const captured = capture.read()
+
+    expect(captured.text).toBe('é\n... [10 bytes truncated] ...\né')
+    expect(captured.text).not.toContain('\uFFFD')
+    expect(captured.droppedBytes).toBe(14 - 4)
+  })
+
+  it('drops all output when capture is disabled', () => {
+    const capture = createOutputCapture({ captureOutput: false, maxOutputBytes: 4 })
+    writeAll(capture, ['abcdef'])
+
+    expect(capture.read()).toEqual({ text: '', truncated: false, droppedBytes: 0 })
+  })
+})
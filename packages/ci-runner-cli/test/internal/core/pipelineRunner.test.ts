@@ -1,9 +1,17 @@
-import { describe, expect, it } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
 
+import { describe, expect, it, vi } from 'vitest'
+
+import { FileStepCache } from '../../../src/cache/fileStepCache.js'
 import type {
+  CommandExecutionRequest,
   CommandExecutionResult,
   CommandExecutor,
+  ParsedStepMetrics,
   PipelineReporter,
+  PipelineStep,
   StepOutputParser,
 } from '../../../src/internal/core/index.js'
 import { createPipelineRunner, StepParserRegistry } from '../../../src/internal/core/index.js'
@@ -43,7 +51,7 @@ const createSequenceExecutor = (results: readonly CommandExecutionResult[]): Com
 }
 
 describe('PipelineRunner', () => {
-  it('marks optional failures as skipped and keeps successful exit code', async () => {
+  it('marks optional failures as failed_allowed and keeps successful exit code', async () => {
     const runner = createPipelineRunner({
       steps: [
         {
@@ -66,8 +74,9 @@ describe('PipelineRunner', () => {
     const result = await runner.run()
 
     expect(result.exitCode).toBe(0)
-    expect(result.steps[0]?.status).toBe('skipped')
+    expect(result.steps[0]?.status).toBe('failed_allowed')
     expect(result.steps[0]?.reason).toBe('optional_step_failed')
+    expect(result.summary).toMatchObject({ failed: 0, failedAllowed: 1, skipped: 0 })
   })
 
   it('retries a failed step and passes on the second attempt', async () => {
@@ -102,6 +111,80 @@ describe('PipelineRunner', () => {
     expect(result.steps[0]?.attempts).toBe(2)
   })
 
+  it('keeps termination and bounded output of every attempt in attemptHistory', async () => {
+    const runner = createPipelineRunner({
+      steps: [
+        {
+          id: 'e2e',
+          name: 'E2E',
+          command: 'pnpm run e2e',
+          retry: { maxAttempts: 2 },
+        },
+      ],
+      executor: createSequenceExecutor([
+        {
+          ...failedResult(false),
+          durationMs: 3200,
+          stdout: `x${'€'.repeat(3000)}`,
+          stderr: `${'x'.repeat(20_000)}ECONNRESET`,
+        },
+        successResult(),
+      ]),
+    })
+
+    const result = await runner.run()
+    const [firstAttempt, secondAttempt] = result.steps[0]?.attemptHistory ?? []
+
+    expect(result.steps[0]?.attemptHistory).toHaveLength(2)
+    expect(firstAttempt).toMatchObject({
+      attempt: 1,
+      durationMs: 3200,
+      termination: { kind: 'exited_nonzero', exitCode: 1 },
+      output: { exitCode: 1, outputTruncated: true },
+    })
+    expect(firstAttempt?.output.stderr.length).toBe(8 * 1024)
+    expect(firstAttempt?.output.stderr.endsWith('ECONNRESET')).toBe(true)
+    expect(firstAttempt?.output.stdout.startsWith('€')).toBe(true)
+    expect(secondAttempt).toMatchObject({
+      attempt: 2,
+      termination: { kind: 'succeeded' },
+      output: { stdout: 'ok' },
+    })
+  })
+
+  it('marks steps that pass only after a retry as flaky', async () => {
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'e2e', name: 'E2E', command: 'e2e', retry: { maxAttempts: 2 } },
+        {
+          id: 'release-e2e',
+          name: 'Release E2E',
+          command: 'release-e2e',
+          retry: { maxAttempts: 2, failOnFlaky: true },
+        },
+        { id: 'lint', name: 'Lint', command: 'lint', retry: { maxAttempts: 2 } },
+      ],
+      executor: createSequenceExecutor([
+        failedResult(false),
+        successResult(),
+        failedResult(false),
+        successResult(),
+        successResult(),
+      ]),
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps.map((step) => [step.id, step.status, step.flaky])).toEqual([
+      ['e2e', 'passed', true],
+      ['release-e2e', 'failed', true],
+      ['lint', 'passed', undefined],
+    ])
+    expect(result.steps[1]?.reason).toBe('flaky')
+    expect(result.summary).toMatchObject({ passed: 2, failed: 1, flaky: 2 })
+    expect(result.exitCode).toBe(1)
+  })
+
   it('returns failing exit code when a required step times out', async () => {
     const runner = createPipelineRunner({
       steps: [
@@ -165,6 +248,231 @@ describe('PipelineRunner', () => {
     ])
   })
 
+  it('maps exit codes to passed, warning, and skipped results', async () => {
+    const exitCodesByCommand: Readonly<Record<string, number>> = {
+      'robocopy src dist': 3,
+      'pnpm run lint': 2,
+      'pnpm run e2e': 78,
+    }
+    const steps = Object.keys(exitCodesByCommand).map((command) => ({
+      id: command,
+      name: command,
+      command,
+      exitCodes: { success: [0, 3], warning: [2], skip: [78] },
+    }))
+    const executor: CommandExecutor = async (request) => {
+      return { ...failedResult(), exitCode: exitCodesByCommand[request.command] ?? 1 }
+    }
+
+    const result = await createPipelineRunner({ steps, executor }).run()
+
+    expect(result.steps.map((step) => [step.status, step.reason])).toEqual([
+      ['passed', undefined],
+      ['warning', 'exit_code_warning'],
+      ['skipped', 'exit_code_skipped'],
+    ])
+    expect(result.summary.warnings).toBe(1)
+    expect(result.exitCode).toBe(0)
+
+    const strictResult = await createPipelineRunner({ steps, executor, strict: true }).run()
+
+    expect(strictResult.steps[1]?.status).toBe('warning')
+    expect(strictResult.exitCode).toBe(1)
+  })
+
+  it('fails successful steps whose output violates an output assertion', async () => {
+    const outputsByCommand: Readonly<Record<string, string>> = {
+      test: 'Test Files  3 passed (3)\n',
+      'empty-test': 'No test files found, exiting with code 0\n',
+      build: 'compiled\n(node:42) DeprecationWarning: Buffer() is deprecated\ndone\n',
+    }
+    const assertOutput = {
+      mustMatch: ['^Test Files\\s+\\d+ passed'],
+      mustNotMatch: ['Deprecation'],
+    }
+
+    const result = await createPipelineRunner({
+      steps: Object.keys(outputsByCommand).map((command) => ({
+        id: command,
+        name: command,
+        command,
+        assertOutput: command === 'build' ? { mustNotMatch: ['Deprecation'] } : assertOutput,
+      })),
+      executor: async (request) => {
+        return { ...successResult(), stdout: outputsByCommand[request.command] ?? '' }
+      },
+    }).run()
+
+    expect(result.steps.map((step) => [step.status, step.reason])).toEqual([
+      ['passed', undefined],
+      ['failed', 'output_assertion_failed'],
+      ['failed', 'output_assertion_failed'],
+    ])
+    expect(result.steps[1]?.outputAssertionFailure).toEqual({
+      assertion: 'mustMatch',
+      pattern: '^Test Files\\s+\\d+ passed',
+    })
+    expect(result.steps[2]?.outputAssertionFailure).toEqual({
+      assertion: 'mustNotMatch',
+      pattern: 'Deprecation',
+      line: '(node:42) DeprecationWarning: Buffer() is deprecated',
+    })
+    expect(result.steps[2]?.attempts).toBe(1)
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('checks output assertions against streamed output past the capture limit', async () => {
+    const chunks = [
+      'compiling\n',
+      `${'x'.repeat(64 * 1024)}\n(node:42) Deprecation`,
+      'Warning: Buffer() is deprecated\r\nTest Files  3 ',
+      'passed (3)',
+    ]
+    const executor: CommandExecutor = async (request) => {
+      for (const chunk of chunks) {
+        request.onOutput?.('stdout', chunk)
+      }
+      return { ...successResult(), stdout: 'compiling\n', outputTruncated: true }
+    }
+
+    const result = await createPipelineRunner({
+      steps: [
+        {
+          id: 'test',
+          name: 'Test',
+          command: 'test',
+          maxOutputBytes: 16,
+          assertOutput: { mustMatch: ['^Test Files\\s+\\d+ passed'] },
+        },
+        {
+          id: 'build',
+          name: 'Build',
+          command: 'build',
+          maxOutputBytes: 16,
+          assertOutput: { mustNotMatch: ['DeprecationWarning'] },
+        },
+      ],
+      executor,
+    }).run()
+
+    expect(result.steps[0]?.status).toBe('passed')
+    expect(result.steps[1]).toMatchObject({
+      status: 'failed',
+      reason: 'output_assertion_failed',
+      outputAssertionFailure: {
+        assertion: 'mustNotMatch',
+        pattern: 'DeprecationWarning',
+        line: '(node:42) DeprecationWarning: Buffer() is deprecated',
+      },
+    })
+  })
+
+  it('fails successful steps whose parsed metric breaches a threshold', async () => {
+    const metricsByCommand: Readonly<Record<string, ParsedStepMetrics | null>> = {
+      lint: { label: 'warnings', value: 3 },
+      'lint-clean': null,
+      test: { label: 'tests_passed', value: 120 },
+      'test-missing': null,
+    }
+
+    const result = await createPipelineRunner({
+      steps: Object.keys(metricsByCommand).map(
+        (command): PipelineStep => ({
+          id: command,
+          name: command,
+          command,
+          thresholds: command.startsWith('lint')
+            ? { warnings: { max: 0 } }
+            : { tests_passed: { min: 100 } },
+        })
+      ),
+      executor: createSequenceExecutor([successResult()]),
+      parserResolver: { parse: (step) => metricsByCommand[step.command] ?? null },
+    }).run()
+
+    expect(result.steps.map((step) => [step.id, step.status, step.reason])).toEqual([
+      ['lint', 'failed', 'metric_threshold_exceeded'],
+      ['lint-clean', 'passed', undefined],
+      ['test', 'passed', undefined],
+      ['test-missing', 'failed', 'metric_threshold_exceeded'],
+    ])
+    expect(result.steps[0]?.metricThresholdBreach).toEqual({
+      metric: 'warnings',
+      value: 3,
+      threshold: { max: 0 },
+    })
+    expect(result.steps[0]?.metrics).toEqual({ label: 'warnings', value: 3 })
+    expect(result.steps[3]?.metricThresholdBreach).toEqual({
+      metric: 'tests_passed',
+      value: null,
+      threshold: { min: 100 },
+    })
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('grows the retry delay by the backoff multiplier up to maxDelayMs with jitter', async () => {
+    const sleeps: number[] = []
+    const runner = createPipelineRunner({
+      steps: [
+        {
+          id: 'e2e',
+          name: 'E2E',
+          command: 'e2e',
+          retry: {
+            maxAttempts: 5,
+            delayMs: 100,
+            backoffMultiplier: 3,
+            maxDelayMs: 500,
+            jitter: 0.5,
+          },
+        },
+      ],
+      executor: createSequenceExecutor([failedResult(false)]),
+      sleep: async (durationMs): Promise<void> => {
+        sleeps.push(durationMs)
+      },
+      random: () => 0.5,
+    })
+
+    await runner.run()
+
+    expect(sleeps).toEqual([75, 225, 375, 375])
+  })
+
+  it('retries non-zero exits only when a retry rule matches', async () => {
+    const executedCommands: string[] = []
+    const outputs: Record<string, readonly CommandExecutionResult[]> = {
+      transient: [{ ...failedResult(false), stderr: 'Error: read ECONNRESET' }, successResult()],
+      'exit-code': [{ ...failedResult(false), exitCode: 75 }, successResult()],
+      assertion: [{ ...failedResult(false), stderr: 'expected 1 to be 2' }, successResult()],
+    }
+    const attemptsByCommand = new Map<string, number>()
+    const retry = { maxAttempts: 2, retryOnExitCodes: [75], retryOnOutputPattern: 'ECONNRESET' }
+
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'transient', name: 'Transient', command: 'transient', retry },
+        { id: 'exit-code', name: 'Exit Code', command: 'exit-code', retry },
+        { id: 'assertion', name: 'Assertion', command: 'assertion', retry },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        executedCommands.push(request.command)
+        const attempt = attemptsByCommand.get(request.command) ?? 0
+        attemptsByCommand.set(request.command, attempt + 1)
+        return outputs[request.command]?.[attempt] ?? successResult()
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps.map((step) => [step.id, step.status, step.attempts])).toEqual([
+      ['transient', 'passed', 2],
+      ['exit-code', 'passed', 2],
+      ['assertion', 'failed', 1],
+    ])
+    expect(executedCommands).toHaveLength(5)
+  })
+
   it('retries signal termination only when explicitly configured', async () => {
     const runner = createPipelineRunner({
       steps: [
@@ -194,7 +502,69 @@ describe('PipelineRunner', () => {
     expect(result.steps[0]?.attempts).toBe(2)
   })
 
-  it('stops after first hard failure when continueOnError is false', async () => {
+  it('reports idle timeouts separately and retries them with retryOnTimeout', async () => {
+    const requests: CommandExecutionRequest[] = []
+    const idleTimeout: CommandExecutionResult = {
+      ...failedResult(true),
+      signal: 'SIGTERM',
+      termination: { kind: 'idle_timeout', exitCode: null, signal: 'SIGTERM' },
+    }
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'watcher', name: 'Watcher', command: 'watcher', idleTimeoutMs: 30_000 },
+        {
+          id: 'e2e',
+          name: 'E2E',
+          command: 'e2e',
+          idleTimeoutMs: 30_000,
+          retry: { maxAttempts: 2, retryOnTimeout: true },
+        },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        requests.push(request)
+        return requests.length === 3 ? successResult() : idleTimeout
+      },
+      sleep: async (): Promise<void> => undefined,
+    })
+
+    const result = await runner.run()
+
+    expect(requests.map((request) => request.idleTimeoutMs)).toEqual([30_000, 30_000, 30_000])
+    expect(result.steps[0]).toMatchObject({
+      status: 'timed_out',
+      reason: 'command_idle_timeout',
+      termination: { kind: 'idle_timeout' },
+    })
+    expect(result.steps[1]).toMatchObject({ status: 'passed', attempts: 2 })
+  })
+
+  it('passes kill and measurement settings to the executor with step values overriding defaults', async () => {
+    const requests: CommandExecutionRequest[] = []
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'e2e', name: 'E2E', command: 'e2e', killSignal: 'SIGTERM', killGracePeriodMs: 0 },
+        { id: 'server', name: 'Server', command: 'server' },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        requests.push(request)
+        return successResult()
+      },
+      killSignal: 'SIGINT',
+      killGracePeriodMs: 30_000,
+      measureResourceUsage: true,
+    })
+
+    await runner.run()
+
+    expect(requests.map((request) => [request.killSignal, request.killGracePeriodMs])).toEqual([
+      ['SIGTERM', 0],
+      ['SIGINT', 30_000],
+    ])
+    expect(requests.every((request) => request.measureResourceUsage === true)).toBe(true)
+  })
+
+  it('stops after first hard failure and reports the rest as not run when continueOnError is false', async () => {
+    const completedStepIds: string[] = []
     const runner = createPipelineRunner({
       steps: [
         {
@@ -210,6 +580,7 @@ describe('PipelineRunner', () => {
       ],
       executor: createSequenceExecutor([failedResult(false), successResult()]),
       continueOnError: false,
+      reporters: [{ onStepComplete: (result) => void completedStepIds.push(result.id) }],
       now: (() => {
         let timestamp = 0
         return (): number => {
@@ -221,11 +592,521 @@ describe('PipelineRunner', () => {
 
     const result = await runner.run()
 
-    expect(result.steps).toHaveLength(1)
-    expect(result.steps[0]?.id).toBe('build')
+    expect(result.steps.map((step) => [step.id, step.status, step.reason, step.blockedBy])).toEqual(
+      [
+        ['build', 'failed', 'command_failed', undefined],
+        ['lint', 'not_run', 'fail_fast', 'build'],
+      ]
+    )
+    expect(result.steps[1]?.attempts).toBe(0)
+    expect(result.summary).toMatchObject({ total: 2, failed: 1, notRun: 1 })
+    expect(completedStepIds).toEqual(['build', 'lint'])
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('runs dependencies before their dependents', async () => {
+    const executedCommands: string[] = []
+
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'build', name: 'Build', command: 'build', dependsOn: ['typecheck'] },
+        { id: 'typecheck', name: 'Typecheck', command: 'typecheck' },
+        { id: 'lint', name: 'Lint', command: 'lint' },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        executedCommands.push(request.command)
+        return successResult()
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(executedCommands).toEqual(['typecheck', 'build', 'lint'])
+    expect(result.steps.map((step) => step.id)).toEqual(['build', 'typecheck', 'lint'])
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('reports dependents of a failed step as not run', async () => {
+    const events: string[] = []
+
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'typecheck', name: 'Typecheck', command: 'typecheck' },
+        { id: 'build', name: 'Build', command: 'build', dependsOn: ['typecheck'] },
+        { id: 'package', name: 'Package', command: 'package', dependsOn: ['build'] },
+        { id: 'lint', name: 'Lint', command: 'lint' },
+      ],
+      executor: createSequenceExecutor([failedResult(false), successResult()]),
+      reporters: [
+        {
+          onStepStart: (step): void => {
+            events.push(`step:start:${step.id}`)
+          },
+          onStepComplete: (result): void => {
+            events.push(`step:complete:${result.id}:${result.status}`)
+          },
+        },
+      ],
+    })
+
+    const result = await runner.run()
+
+    expect(events).toEqual([
+      'step:start:typecheck',
+      'step:complete:typecheck:failed',
+      'step:complete:build:not_run',
+      'step:complete:package:not_run',
+      'step:start:lint',
+      'step:complete:lint:passed',
+    ])
+    expect(result.steps[1]).toMatchObject({
+      status: 'not_run',
+      reason: 'dependency_failed',
+      blockedBy: 'typecheck',
+      attempts: 0,
+      termination: { kind: 'not_started' },
+    })
+    expect(result.steps[2]?.blockedBy).toBe('build')
+    expect(result.summary).toMatchObject({ total: 4, passed: 1, failed: 1, notRun: 2 })
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('throws for dependency cycles', async () => {
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'a', name: 'A', command: 'a', dependsOn: ['b'] },
+        { id: 'b', name: 'B', command: 'b', dependsOn: ['a'] },
+      ],
+      executor: createSequenceExecutor([successResult()]),
+    })
+
+    await expect(runner.run()).rejects.toThrow('Step dependencies contain a cycle: a, b')
+  })
+
+  it('runs independent steps concurrently and keeps config order in results', async () => {
+    const started: string[] = []
+    const releases = new Map<string, () => void>()
+
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'lint' },
+        { id: 'typecheck', name: 'Typecheck', command: 'typecheck' },
+        { id: 'build', name: 'Build', command: 'build', dependsOn: ['typecheck'] },
+      ],
+      concurrency: 2,
+      executor: async (request): Promise<CommandExecutionResult> => {
+        started.push(request.command)
+        await new Promise<void>((resolve) => {
+          releases.set(request.command, resolve)
+        })
+        return successResult()
+      },
+    })
+
+    const runPromise = runner.run()
+    await vi.waitFor(() => {
+      expect(started).toEqual(['lint', 'typecheck'])
+    })
+
+    releases.get('typecheck')?.()
+    await vi.waitFor(() => {
+      expect(started).toEqual(['lint', 'typecheck', 'build'])
+    })
+
+    releases.get('build')?.()
+    releases.get('lint')?.()
+    const result = await runPromise
+
+    expect(result.steps.map((step) => step.id)).toEqual(['lint', 'typecheck', 'build'])
+    expect(result.summary.passed).toBe(3)
+  })
+
+  it('cancels running siblings after a hard failure when continueOnError is false', async () => {
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'e2e', name: 'E2E', command: 'e2e' },
+        { id: 'lint', name: 'Lint', command: 'lint' },
+      ],
+      concurrency: 2,
+      continueOnError: false,
+      executor: async (request): Promise<CommandExecutionResult> => {
+        if (request.command === 'lint') {
+          return failedResult(false)
+        }
+
+        await new Promise<void>((resolve) => {
+          request.signal?.addEventListener('abort', () => resolve(), { once: true })
+        })
+        return {
+          ...failedResult(false),
+          exitCode: null,
+          signal: 'SIGTERM',
+          termination: { kind: 'cancelled', exitCode: null, signal: 'SIGTERM' },
+        }
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps.map((step) => [step.id, step.status])).toEqual([
+      ['e2e', 'cancelled'],
+      ['lint', 'failed'],
+    ])
+    expect(result.steps[0]).toMatchObject({ reason: 'fail_fast', blockedBy: 'lint' })
+    expect(result.summary).toMatchObject({ failed: 1, cancelled: 1 })
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('reports a throwing step as failed and cancels running siblings under fail-fast', async () => {
+    const controller = new AbortController()
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener')
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'e2e', name: 'E2E', command: 'e2e' },
+        { id: 'lint', name: 'Lint', command: 'lint' },
+      ],
+      concurrency: 2,
+      continueOnError: false,
+      signal: controller.signal,
+      executor: async (request): Promise<CommandExecutionResult> => {
+        if (request.command === 'lint') {
+          throw new Error('executor crashed')
+        }
+
+        await new Promise<void>((resolve) => {
+          request.signal?.addEventListener('abort', () => resolve(), { once: true })
+        })
+        return {
+          ...failedResult(false),
+          termination: { kind: 'cancelled', exitCode: null, signal: 'SIGTERM' },
+        }
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps.map((step) => [step.id, step.status, step.reason])).toEqual([
+      ['e2e', 'cancelled', 'fail_fast'],
+      ['lint', 'failed', 'command_failed'],
+    ])
+    expect(result.steps[1]?.output.stderr).toBe('Step failed to run: executor crashed')
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('cancels the running step and all pending steps when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'lint' },
+        { id: 'test', name: 'Test', command: 'test' },
+        { id: 'build', name: 'Build', command: 'build' },
+      ],
+      signal: controller.signal,
+      executor: async (request): Promise<CommandExecutionResult> => {
+        if (request.command === 'lint') {
+          return successResult()
+        }
+
+        controller.abort()
+        return {
+          ...failedResult(false),
+          exitCode: null,
+          signal: 'SIGTERM',
+          termination: { kind: 'cancelled', exitCode: null, signal: 'SIGTERM' },
+        }
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps.map((step) => [step.id, step.status, step.attempts])).toEqual([
+      ['lint', 'passed', 1],
+      ['test', 'cancelled', 1],
+      ['build', 'cancelled', 0],
+    ])
+    expect(result.steps[2]).toMatchObject({
+      reason: 'pipeline_cancelled',
+      termination: { kind: 'not_started' },
+    })
+    expect(result.summary).toMatchObject({ total: 3, passed: 1, cancelled: 2 })
+    expect(result.aborted).toBe(true)
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('cancels the running step and skips the rest when the time budget runs out', async () => {
+    const executedCommands: string[] = []
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'lint' },
+        { id: 'test', name: 'Test', command: 'test' },
+        { id: 'build', name: 'Build', command: 'build' },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        executedCommands.push(request.command)
+        if (request.command === 'lint') {
+          return successResult()
+        }
+
+        return await new Promise((resolve) => {
+          request.signal?.addEventListener('abort', () => {
+            resolve({
+              ...failedResult(),
+              termination: { kind: 'cancelled', exitCode: null, signal: 'SIGTERM' },
+            })
+          })
+        })
+      },
+      timeoutMs: 20,
+    })
+
+    const result = await runner.run()
+
+    expect(executedCommands).toEqual(['lint', 'test'])
+    expect(result.steps.map((step) => [step.status, step.reason])).toEqual([
+      ['passed', undefined],
+      ['cancelled', 'budget_exceeded'],
+      ['not_run', 'budget_exceeded'],
+    ])
+    expect(result.summary).toMatchObject({ budgetExceeded: true, cancelled: 1, notRun: 1 })
+    expect(result.aborted).toBe(false)
     expect(result.exitCode).toBe(1)
   })
 
+  it('does not start any step when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const executor = vi.fn(createSequenceExecutor([successResult()]))
+    const runner = createPipelineRunner({
+      steps: [{ id: 'lint', name: 'Lint', command: 'lint' }],
+      signal: controller.signal,
+      executor,
+    })
+
+    const result = await runner.run()
+
+    expect(executor).not.toHaveBeenCalled()
+    expect(result.steps[0]).toMatchObject({ status: 'cancelled', reason: 'pipeline_cancelled' })
+  })
+
+  it('restores cache hits without calling the executor and stores passing results', async () => {
+    const executedCommands: string[] = []
+    const writtenKeys: string[] = []
+
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'lint', name: 'Lint', command: 'lint', inputs: ['src/**'] },
+        { id: 'test', name: 'Test', command: 'test', inputs: ['src/**'] },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        executedCommands.push(request.command)
+        return successResult()
+      },
+      cache: {
+        getKey: async (step) => `key-${step.id}`,
+        read: async (step) => {
+          if (step.id !== 'lint') {
+            return null
+          }
+
+          return {
+            output: { exitCode: 0, signal: null, stdout: 'cached lint', stderr: '' },
+            metrics: { label: 'warnings', value: 0 },
+            durationMs: 1200,
+          }
+        },
+        write: async (_step, key) => {
+          writtenKeys.push(key)
+        },
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(executedCommands).toEqual(['test'])
+    expect(writtenKeys).toEqual(['key-test'])
+    expect(result.steps[0]).toMatchObject({
+      status: 'passed',
+      cacheHit: true,
+      attempts: 0,
+      output: { stdout: 'cached lint' },
+      metrics: { label: 'warnings', value: 0 },
+    })
+    expect(result.steps[1]?.cacheHit).toBeUndefined()
+  })
+
+  it('does not cache steps that passed only after a retry', async () => {
+    const writtenKeys: string[] = []
+
+    const result = await createPipelineRunner({
+      steps: [
+        { id: 'e2e', name: 'E2E', command: 'e2e', inputs: ['src/**'], retry: { maxAttempts: 2 } },
+      ],
+      executor: createSequenceExecutor([failedResult(), successResult()]),
+      cache: {
+        getKey: async (step) => `key-${step.id}`,
+        read: async () => null,
+        write: async (_step, key) => {
+          writtenKeys.push(key)
+        },
+      },
+    }).run()
+
+    expect(result.steps[0]).toMatchObject({ status: 'passed', flaky: true })
+    expect(writtenKeys).toEqual([])
+  })
+
+  it('reruns a cached step when its output assertions change', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-runner-cache-'))
+    try {
+      await writeFile(resolve(directory, 'input.txt'), 'input\n', 'utf8')
+      const executor = vi.fn(async (): Promise<CommandExecutionResult> => successResult())
+      const runWithAssertion = (pattern: string) => {
+        return createPipelineRunner({
+          steps: [
+            {
+              id: 'test',
+              name: 'Test',
+              command: 'test',
+              inputs: ['input.txt'],
+              assertOutput: { mustMatch: [pattern] },
+            },
+          ],
+          cwd: directory,
+          executor,
+          cache: new FileStepCache({ cwd: directory }),
+        }).run()
+      }
+
+      expect((await runWithAssertion('^ok$')).steps[0]?.status).toBe('passed')
+      expect((await runWithAssertion('^ok$')).steps[0]?.cacheHit).toBe(true)
+
+      const result = await runWithAssertion('^all tests passed$')
+
+      expect(executor).toHaveBeenCalledTimes(2)
+      expect(result.steps[0]).toMatchObject({ status: 'failed', reason: 'output_assertion_failed' })
+      expect(result.steps[0]?.cacheHit).toBeUndefined()
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('reruns a cached step when its exit code rules change', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-runner-cache-'))
+    try {
+      await writeFile(resolve(directory, 'input.txt'), 'input\n', 'utf8')
+      const executor = vi.fn(async (): Promise<CommandExecutionResult> => failedResult())
+      const runWithSuccessCodes = (success: readonly number[]) => {
+        return createPipelineRunner({
+          steps: [
+            {
+              id: 'lint',
+              name: 'Lint',
+              command: 'lint',
+              inputs: ['input.txt'],
+              exitCodes: { success },
+            },
+          ],
+          cwd: directory,
+          executor,
+          cache: new FileStepCache({ cwd: directory }),
+        }).run()
+      }
+
+      expect((await runWithSuccessCodes([0, 1])).steps[0]?.status).toBe('passed')
+      expect((await runWithSuccessCodes([0, 1])).steps[0]?.cacheHit).toBe(true)
+
+      const result = await runWithSuccessCodes([0])
+
+      expect(executor).toHaveBeenCalledTimes(2)
+      expect(result.steps[0]).toMatchObject({ status: 'failed', reason: 'command_failed' })
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('forwards executor output chunks to reporters while a step runs', async () => {
+    const events: string[] = []
+    const runner = createPipelineRunner({
+      steps: [{ id: 'e2e', name: 'E2E', command: 'e2e' }],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        request.onOutput?.('stdout', 'spec 1 ok\n')
+        request.onOutput?.('stderr', 'warning\n')
+        return successResult()
+      },
+      reporters: [
+        {
+          onStepOutput: (step, stream, chunk): void => {
+            events.push(`${step.id}:${stream}:${chunk}`)
+          },
+          onStepComplete: (result): void => {
+            events.push(`complete:${result.id}`)
+          },
+        },
+      ],
+    })
+
+    await runner.run()
+
+    expect(events).toEqual(['e2e:stdout:spec 1 ok\n', 'e2e:stderr:warning\n', 'complete:e2e'])
+  })
+
+  it('writes step logs to the log directory and bounds the in-memory output', async () => {
+    const requests: CommandExecutionRequest[] = []
+    const runner = createPipelineRunner({
+      steps: [
+        { id: 'build/app', name: 'Build', command: 'build' },
+        { id: 'quiet', name: 'Quiet', command: 'quiet', captureOutput: false },
+        { id: 'small', name: 'Small', command: 'small', maxOutputBytes: 64 },
+      ],
+      executor: async (request): Promise<CommandExecutionResult> => {
+        requests.push(request)
+        return successResult()
+      },
+      logDirectory: '/repo/.ci-runner/runs/run-1',
+    })
+
+    const result = await runner.run()
+
+    expect(requests.map((request) => [request.logFile, request.maxOutputBytes])).toEqual([
+      ['/repo/.ci-runner/runs/run-1/build%2Fapp.log', 1024 * 1024],
+      [undefined, undefined],
+      ['/repo/.ci-runner/runs/run-1/small.log', 64],
+    ])
+    expect(result.steps.map((step) => step.logFile)).toEqual([
+      '/repo/.ci-runner/runs/run-1/build%2Fapp.log',
+      undefined,
+      '/repo/.ci-runner/runs/run-1/small.log',
+    ])
+  })
+
+  it('sums cpu time and keeps the highest peak memory over all attempts', async () => {
+    const usages = [
+      { cpuUserMs: 300, cpuSystemMs: 20, peakRssBytes: 4096 },
+      { cpuUserMs: 200, cpuSystemMs: 10, peakRssBytes: 2048 },
+    ]
+    let calls = 0
+    const runner = createPipelineRunner({
+      steps: [{ id: 'build', name: 'Build', command: 'build', retry: { maxAttempts: 2 } }],
+      executor: async (): Promise<CommandExecutionResult> => {
+        const resourceUsage = usages[calls]
+        calls += 1
+        return calls === 1
+          ? { ...failedResult(), resourceUsage }
+          : { ...successResult(), resourceUsage }
+      },
+    })
+
+    const result = await runner.run()
+
+    expect(result.steps[0]?.attemptHistory.map((attempt) => attempt.resourceUsage)).toEqual(usages)
+    expect(result.steps[0]?.resourceUsage).toEqual({
+      cpuUserMs: 500,
+      cpuSystemMs: 30,
+      peakRssBytes: 4096,
+    })
+  })
+
   it('emits reporter lifecycle hooks in execution order', async () => {
     const events: string[] = []
 
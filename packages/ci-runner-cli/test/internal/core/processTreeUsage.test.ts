@@ -0,0 +1,48 @@
+import { spawn } from 'node:child_process'
+
+import { describe, expect, it } from 'vitest'
+
+import { startProcessTreeUsageSampler } from '../../../src/internal/core/execution/processTreeUsage.js'
+
+describe('startProcessTreeUsageSampler', () => {
+  it.runIf(process.platform === 'linux')(
+    'samples cpu time and resident memory of child processes',
+    async () => {
+      const script = [
+        'const { spawn } = require("node:child_process")',
+        'const child = spawn(process.execPath, ["-e", "const b = Buffer.alloc(64 * 1024 * 1024, 1); setTimeout(() => b.length, 600)"])',
+        'const end = Date.now() + 300',
+        'while (Date.now() < end) {}',
+        'child.on("close", () => process.exit(0))',
+      ].join('\n')
+      const child = spawn(process.execPath, ['-e', script], { stdio: 'ignore' })
+      const sampler = startProcessTreeUsageSampler(child.pid, 50)
+
+      await new Promise((resolve) => child.on('close', resolve))
+      const usage = await sampler.stop()
+
+      expect(usage?.cpuUserMs).toBeGreaterThan(0)
+      expect(usage?.peakRssBytes).toBeGreaterThan(64 * 1024 * 1024)
+    }
+  )
+
+  it.runIf(process.platform === 'linux')(
+    'includes cpu time spent after the last sample once the process was reaped',
+    async () => {
+      const script = 'while (process.cpuUsage().user < 300_000) {}'
+      const child = spawn(process.execPath, ['-e', script], { stdio: 'ignore' })
+      const sampler = startProcessTreeUsageSampler(child.pid, 60_000)
+
+      await new Promise((resolve) => child.on('close', resolve))
+      const usage = await sampler.stop()
+
+      expect(usage?.cpuUserMs).toBeGreaterThanOrEqual(300)
+    }
+  )
+
+  it('reports no usage when the process does not exist', async () => {
+    const sampler = startProcessTreeUsageSampler(undefined)
+
+    await expect(sampler.stop()).resolves.toBeUndefined()
+  })
+})
@@ -1,4 +1,4 @@
-import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { resolve } from 'node:path'
 
@@ -63,6 +63,228 @@ describe('loadCiRunnerConfig', () => {
     expect(loaded.config.steps[0]?.id).toBe('lint')
   })
 
+  it('loads ts config modules imported by relative paths, tsconfig aliases and json', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-ts-graph-'))
+    createdDirectories.push(directory)
+    await mkdir(resolve(directory, 'steps'))
+    await mkdir(resolve(directory, 'shared'))
+
+    await writeFile(
+      resolve(directory, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@shared/*': ['shared/*'] } } }),
+      'utf8'
+    )
+    await writeFile(resolve(directory, 'names.json'), JSON.stringify({ lint: 'Lint' }), 'utf8')
+    await writeFile(
+      resolve(directory, 'steps', 'lint.ts'),
+      [
+        'import names from "../names.json"',
+        'import { createStep } from "@shared/factory"',
+        'export const lintStep = createStep("lint", names.lint)',
+      ].join('\n'),
+      'utf8'
+    )
+    await writeFile(
+      resolve(directory, 'shared', 'factory.ts'),
+      [
+        'export const createStep = (id: string, name: string) => ({',
+        '  id,',
+        '  name,',
+        '  command: `pnpm run ${id}`,',
+        '})',
+      ].join('\n'),
+      'utf8'
+    )
+    await writeFile(
+      resolve(directory, 'ci.config.ts'),
+      [
+        'import { lintStep } from "./steps/lint"',
+        'import { createStep } from "./shared/factory.js"',
+        'export default { steps: [lintStep, createStep("test", "Test")] }',
+      ].join('\n'),
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.steps.map((step) => [step.id, step.name, step.command])).toEqual([
+      ['lint', 'Lint', 'pnpm run lint'],
+      ['test', 'Test', 'pnpm run test'],
+    ])
+  })
+
+  it('resolves package imports of ts configs from the nearest node_modules', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-ts-package-'))
+    createdDirectories.push(directory)
+    const packageDirectory = resolve(directory, 'node_modules', 'step-presets')
+    await mkdir(packageDirectory, { recursive: true })
+
+    await writeFile(
+      resolve(packageDirectory, 'package.json'),
+      JSON.stringify({ name: 'step-presets', type: 'module', exports: './index.js' }),
+      'utf8'
+    )
+    await writeFile(
+      resolve(packageDirectory, 'index.js'),
+      'export const buildStep = { id: "build", name: "Build", command: "pnpm run build" }',
+      'utf8'
+    )
+    await writeFile(
+      resolve(directory, 'ci.config.ts'),
+      'import { buildStep } from "step-presets"\nexport default { steps: [buildStep] }',
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.steps[0]?.id).toBe('build')
+    expect(await readdir(resolve(directory, 'node_modules', '.ci-runner-config'))).toEqual([])
+  })
+
+  it('throws when a ts config imports a missing relative module', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-ts-missing-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.ts'),
+      'import { steps } from "./steps"\nexport default { steps }',
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      `Cannot resolve "./steps" imported by ${resolve(directory, 'ci.config.ts')}`
+    )
+  })
+
+  it('loads ci.config.yaml with comments, anchors and merge keys', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-yaml-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.yaml'),
+      [
+        '# Shared step defaults',
+        'x-defaults: &defaults',
+        '  timeoutMs: 60000',
+        '  retry: { maxAttempts: 2 }',
+        'steps:',
+        '  - <<: *defaults',
+        '    id: lint',
+        '    name: Lint',
+        '    command: pnpm run lint',
+        '  - <<: *defaults',
+        '    id: test',
+        '    name: Test',
+        '    command: pnpm run test',
+        '    timeoutMs: 120000',
+        'targets:',
+        '  - id: quick',
+        '    name: Quick',
+        '    includeStepIds: &quickSteps [lint]',
+        '  - id: quick-again',
+        '    name: Quick again',
+        '    includeStepIds: *quickSteps',
+      ].join('\n'),
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.configFilePath).toBe(resolve(directory, 'ci.config.yaml'))
+    expect(loaded.config.steps.map((step) => [step.id, step.timeoutMs])).toEqual([
+      ['lint', 60_000],
+      ['test', 120_000],
+    ])
+    expect(loaded.config.steps[1]?.retry?.maxAttempts).toBe(2)
+    expect(loaded.config.targets?.[1]?.includeStepIds).toEqual(['lint'])
+    expect(loaded.warnings).toEqual([])
+  })
+
+  it('reports yaml syntax errors with line and column numbers', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-yaml-syntax-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.yml'),
+      ['steps:', '  - id: lint', '    name: [Lint', '    command: pnpm run lint'].join('\n'),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(/at line \d+, column \d+/u)
+  })
+
+  it('reports yaml validation errors with line and column numbers', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-yaml-invalid-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.yml'),
+      [
+        'steps:',
+        '  - id: lint',
+        '    name: Lint',
+        '    command: pnpm run lint',
+        '    timeoutMs: soon',
+        '    pipeFail: true',
+        '  - id: lint',
+        '    name: Lint again',
+        '    command: pnpm run lint',
+      ].join('\n'),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory, undefined, { strict: true })).rejects.toThrow(
+      [
+        'Config has 3 problems:',
+        '  - steps[0].timeoutMs must be a valid number (line 5, column 5)',
+        '  - steps[0].pipeFail is not a known option (did you mean "pipefail"?) (line 6, column 5)',
+        '  - steps[1].id must be unique ("lint" is also used by steps[0]) (line 7, column 5)',
+      ].join('\n')
+    )
+  })
+
+  it('reports every invalid value at once with its location', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-yaml-problems-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.yml'),
+      [
+        'concurrency: 0',
+        'steps:',
+        '  - id: lint',
+        '    name: Lint',
+        '    command: pnpm run lint',
+        '    env:',
+        '      CI: true',
+        '  - id: test',
+        '    name: Test',
+        '    command: pnpm test',
+        '    retry:',
+        '      maxAttempts: 2',
+        '      jitter: 2',
+        'targets:',
+        '  - id: quick',
+        '    name: Quick',
+        '    includeStepIds: [lint, tests]',
+        'output:',
+        '  format: xml',
+      ].join('\n'),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      [
+        'Config has 5 problems:',
+        '  - steps[0].env.CI must be a string (line 7, column 7)',
+        '  - steps[1].retry.jitter must be between 0 and 1 (line 13, column 7)',
+        '  - targets[0].includeStepIds[1] references unknown step id: tests (line 17, column 28)',
+        '  - concurrency must be a positive integer (line 1, column 1)',
+        '  - output.format must be "pretty" or "json" (line 19, column 3)',
+      ].join('\n')
+    )
+  })
+
   it('loads watch exclude rules from config', async () => {
     const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-watch-'))
     createdDirectories.push(directory)
@@ -100,6 +322,8 @@ describe('loadCiRunnerConfig', () => {
           parseMetrics: true,
           captureOutput: false,
           maxOutputBytes: 1024,
+          truncateStrategy: 'tail',
+          keepRuns: 3,
         },
         steps: [
           {
@@ -108,6 +332,7 @@ describe('loadCiRunnerConfig', () => {
             command: 'pnpm run lint',
             captureOutput: true,
             pipefail: true,
+            idleTimeoutMs: 60000,
           },
         ],
       }),
@@ -122,9 +347,12 @@ describe('loadCiRunnerConfig', () => {
       parseMetrics: true,
       captureOutput: false,
       maxOutputBytes: 1024,
+      truncateStrategy: 'tail',
+      keepRuns: 3,
     })
     expect(loaded.config.steps[0]?.captureOutput).toBe(true)
     expect(loaded.config.steps[0]?.pipefail).toBe(true)
+    expect(loaded.config.steps[0]?.idleTimeoutMs).toBe(60000)
   })
 
   it('loads retry policy by termination reason', async () => {
@@ -144,6 +372,7 @@ describe('loadCiRunnerConfig', () => {
               retryOnTimeout: true,
               retryOnSignal: true,
               retryOnSpawnFailure: true,
+              failOnFlaky: true,
             },
           },
         ],
@@ -159,9 +388,149 @@ describe('loadCiRunnerConfig', () => {
       retryOnTimeout: true,
       retryOnSignal: true,
       retryOnSpawnFailure: true,
+      failOnFlaky: true,
     })
   })
 
+  it('loads retry backoff and retry rules', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-retry-rules-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        steps: [
+          {
+            id: 'e2e',
+            name: 'E2E',
+            command: 'pnpm run e2e',
+            retry: {
+              maxAttempts: 4,
+              delayMs: 500,
+              backoffMultiplier: 2,
+              maxDelayMs: 5000,
+              jitter: 0.2,
+              retryOnExitCodes: [75],
+              retryOnOutputPattern: 'ECONNRESET|EADDRINUSE',
+            },
+          },
+        ],
+      }),
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.steps[0]?.retry).toMatchObject({
+      maxAttempts: 4,
+      delayMs: 500,
+      backoffMultiplier: 2,
+      maxDelayMs: 5000,
+      jitter: 0.2,
+      retryOnExitCodes: [75],
+      retryOnOutputPattern: 'ECONNRESET|EADDRINUSE',
+    })
+  })
+
+  it('throws for invalid retry rules', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-retry-invalid-'))
+    createdDirectories.push(directory)
+    const configFilePath = resolve(directory, 'ci.config.json')
+    const writeRetry = async (retry: Record<string, unknown>): Promise<void> => {
+      await writeFile(
+        configFilePath,
+        JSON.stringify({ steps: [{ id: 'e2e', name: 'E2E', command: 'e2e', retry }] }),
+        'utf8'
+      )
+    }
+
+    await writeRetry({ maxAttempts: 2, retryOnOutputPattern: '(' })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].retry.retryOnOutputPattern must be a valid regular expression'
+    )
+
+    await writeRetry({ maxAttempts: 2, retryOnExitCodes: [1, 'x'] })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].retry.retryOnExitCodes[1] must be an integer'
+    )
+
+    await writeRetry({ maxAttempts: 2, jitter: 2 })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].retry.jitter must be between 0 and 1'
+    )
+
+    await writeRetry({ maxAttempts: 2, backoffMultiplier: 0.5 })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].retry.backoffMultiplier must be at least 1'
+    )
+  })
+
+  it('loads and validates the run budget, kill signals and grace periods', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-kill-'))
+    createdDirectories.push(directory)
+
+    const writeConfig = async (config: Record<string, unknown>): Promise<void> => {
+      await writeFile(
+        resolve(directory, 'ci.config.json'),
+        JSON.stringify({
+          steps: [{ id: 'e2e', name: 'E2E', command: 'pnpm run e2e' }],
+          ...config,
+        }),
+        'utf8'
+      )
+    }
+
+    await writeConfig({
+      timeoutMs: 600000,
+      killSignal: 'SIGINT',
+      killGracePeriodMs: 30000,
+      steps: [
+        {
+          id: 'e2e',
+          name: 'E2E',
+          command: 'pnpm run e2e',
+          killSignal: 'SIGTERM',
+          killGracePeriodMs: 0,
+        },
+      ],
+    })
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.timeoutMs).toBe(600000)
+    expect(loaded.config.killSignal).toBe('SIGINT')
+    expect(loaded.config.killGracePeriodMs).toBe(30000)
+    expect(loaded.config.steps[0]).toMatchObject({ killSignal: 'SIGTERM', killGracePeriodMs: 0 })
+
+    await writeConfig({ timeoutMs: 0 })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'timeoutMs must be a positive number'
+    )
+
+    await writeConfig({ timeoutMs: -1000 })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'timeoutMs must be a positive number'
+    )
+
+    await writeConfig({ killSignal: 'SIGNOPE' })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'killSignal must be a signal name such as "SIGTERM" or "SIGINT"'
+    )
+
+    await writeConfig({
+      steps: [{ id: 'e2e', name: 'E2E', command: 'pnpm run e2e', killGracePeriodMs: -1 }],
+    })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].killGracePeriodMs must not be negative'
+    )
+
+    await writeConfig({
+      steps: [{ id: 'e2e', name: 'E2E', command: 'pnpm run e2e', idleTimeoutMs: -1 }],
+    })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].idleTimeoutMs must be a positive number'
+    )
+  })
+
   it('loads named targets from config', async () => {
     const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-targets-'))
     createdDirectories.push(directory)
@@ -267,6 +636,221 @@ describe('loadCiRunnerConfig', () => {
     )
   })
 
+  it('loads step dependencies and cache globs', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-depends-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        steps: [
+          { id: 'typecheck', name: 'Typecheck', command: 'pnpm run typecheck' },
+          {
+            id: 'build',
+            name: 'Build',
+            command: 'pnpm run build',
+            dependsOn: ['typecheck'],
+            inputs: ['src/**', '!src/**/*.md'],
+            outputs: ['dist/**'],
+          },
+        ],
+      }),
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.steps[1]).toMatchObject({
+      dependsOn: ['typecheck'],
+      inputs: ['src/**', '!src/**/*.md'],
+      outputs: ['dist/**'],
+    })
+  })
+
+  it('loads and validates output assertions', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-assert-output-'))
+    createdDirectories.push(directory)
+    const configFilePath = resolve(directory, 'ci.config.json')
+    const writeAssertOutput = async (
+      assertOutput: unknown,
+      captureOutput?: { readonly step?: boolean; readonly output?: boolean }
+    ): Promise<void> => {
+      await writeFile(
+        configFilePath,
+        JSON.stringify({
+          steps: [
+            {
+              id: 'test',
+              name: 'Test',
+              command: 'test',
+              captureOutput: captureOutput?.step,
+              assertOutput,
+            },
+          ],
+          output: { captureOutput: captureOutput?.output },
+        }),
+        'utf8'
+      )
+    }
+
+    await writeAssertOutput({ mustMatch: ['\\d+ passed'], mustNotMatch: ['DeprecationWarning'] })
+    expect((await loadCiRunnerConfig(directory)).config.steps[0]?.assertOutput).toEqual({
+      mustMatch: ['\\d+ passed'],
+      mustNotMatch: ['DeprecationWarning'],
+    })
+
+    await writeAssertOutput({ mustNotMatch: ['ok', '('] })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].assertOutput.mustNotMatch[1] must be a valid regular expression'
+    )
+
+    await writeAssertOutput({ mustMatch: 'passed' })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].assertOutput.mustMatch must be an array'
+    )
+
+    await writeAssertOutput({ mustMatch: ['passed'] }, { step: false })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].assertOutput requires captureOutput to be enabled'
+    )
+
+    await writeAssertOutput({ mustMatch: ['passed'] }, { output: false })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].assertOutput requires captureOutput to be enabled'
+    )
+
+    await writeAssertOutput({ mustMatch: ['passed'] }, { step: true, output: false })
+    await expect(loadCiRunnerConfig(directory)).resolves.toBeDefined()
+  })
+
+  it('loads and validates metric thresholds', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-thresholds-'))
+    createdDirectories.push(directory)
+    const configFilePath = resolve(directory, 'ci.config.json')
+    const writeThresholds = async (thresholds: unknown, parseMetrics = true): Promise<void> => {
+      await writeFile(
+        configFilePath,
+        JSON.stringify({
+          output: { parseMetrics },
+          steps: [{ id: 'lint', name: 'Lint', command: 'lint', thresholds }],
+        }),
+        'utf8'
+      )
+    }
+
+    await writeThresholds({ warnings: { max: 0 }, tests_passed: { min: 100 } })
+    expect((await loadCiRunnerConfig(directory)).config.steps[0]?.thresholds).toEqual({
+      warnings: { max: 0 },
+      tests_passed: { min: 100 },
+    })
+
+    await writeThresholds({ warnings: {} })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].thresholds.warnings must set min or max'
+    )
+
+    await writeThresholds({ tests_passed: { min: 10, max: 5 } })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].thresholds.tests_passed.min must not be greater than max'
+    )
+
+    await writeThresholds({ warnings: { max: 0 } }, false)
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].thresholds requires output.parseMetrics to be true'
+    )
+  })
+
+  it('loads and validates step exit code mappings', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-exit-codes-'))
+    createdDirectories.push(directory)
+    const configFilePath = resolve(directory, 'ci.config.json')
+    const writeExitCodes = async (exitCodes: unknown): Promise<void> => {
+      await writeFile(
+        configFilePath,
+        JSON.stringify({ steps: [{ id: 'lint', name: 'Lint', command: 'lint', exitCodes }] }),
+        'utf8'
+      )
+    }
+
+    await writeExitCodes({ success: [0, 1], warning: [2], skip: [78] })
+    expect((await loadCiRunnerConfig(directory)).config.steps[0]?.exitCodes).toEqual({
+      success: [0, 1],
+      warning: [2],
+      skip: [78],
+    })
+
+    await writeExitCodes({ warning: [2, 'x'] })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].exitCodes.warning[1] must be an integer'
+    )
+
+    await writeExitCodes({ warning: [2], skip: [2] })
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].exitCodes must not list exit code 2 more than once'
+    )
+
+    await writeExitCodes([2])
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].exitCodes must be an object'
+    )
+  })
+
+  it('throws when steps depend on unknown steps', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-depends-unknown-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        steps: [{ id: 'build', name: 'Build', command: 'pnpm run build', dependsOn: ['tsc'] }],
+      }),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps[0].dependsOn[0] references unknown step id: tsc'
+    )
+  })
+
+  it('throws when step dependencies contain a cycle', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-depends-cycle-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        steps: [
+          { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+          { id: 'build', name: 'Build', command: 'pnpm run build', dependsOn: ['test'] },
+          { id: 'test', name: 'Test', command: 'pnpm run test', dependsOn: ['lint', 'build'] },
+        ],
+      }),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'steps must not contain dependency cycles (cycle: build -> test -> build)'
+    )
+  })
+
+  it('throws when concurrency is not a positive integer', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-concurrency-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        concurrency: 1.5,
+        steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint' }],
+      }),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      'concurrency must be a positive integer'
+    )
+  })
+
   it('throws for invalid watch exclude entries', async () => {
     const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-watch-invalid-'))
     createdDirectories.push(directory)
@@ -292,4 +876,80 @@ describe('loadCiRunnerConfig', () => {
       'watch.exclude[1] must be a non-empty string'
     )
   })
+
+  it('returns warnings with suggestions for unknown keys', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-unknown-keys-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        contineOnError: true,
+        output: { format: 'json', colors: false },
+        steps: [
+          {
+            id: 'test',
+            name: 'Test',
+            command: 'pnpm run test',
+            timeoutMS: 1000,
+            retry: { maxAttempts: 2, delay: 100 },
+          },
+        ],
+      }),
+      'utf8'
+    )
+
+    const loaded = await loadCiRunnerConfig(directory)
+
+    expect(loaded.config.continueOnError).toBeUndefined()
+    expect(loaded.warnings.map((warning) => warning.message)).toEqual([
+      'contineOnError is not a known option (did you mean "continueOnError"?)',
+      'steps[0].timeoutMS is not a known option (did you mean "timeoutMs"?)',
+      'steps[0].retry.delay is not a known option (did you mean "delayMs"?)',
+      'output.colors is not a known option',
+    ])
+  })
+
+  it('throws for unknown keys in strict mode', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-unknown-keys-strict-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        steps: [{ id: 'lint', name: 'Lint', command: 'pnpm run lint', optinal: true }],
+      }),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory, undefined, { strict: true })).rejects.toThrow(
+      'steps[0].optinal is not a known option (did you mean "optional"?)'
+    )
+  })
+
+  it('throws for duplicate step ids together with other problems', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-duplicate-ids-'))
+    createdDirectories.push(directory)
+
+    await writeFile(
+      resolve(directory, 'ci.config.json'),
+      JSON.stringify({
+        concurrency: 0,
+        steps: [
+          { id: 'lint', name: 'Lint', command: 'pnpm run lint' },
+          { id: 'test', name: 'Test', command: 'pnpm run test' },
+          { id: 'lint', name: 'Lint again', command: 'pnpm run lint' },
+        ],
+      }),
+      'utf8'
+    )
+
+    await expect(loadCiRunnerConfig(directory)).rejects.toThrow(
+      [
+        'Config has 2 problems:',
+        '  - concurrency must be a positive integer',
+        '  - steps[2].id must be unique ("lint" is also used by steps[0])',
+      ].join('\n')
+    )
+  })
 })
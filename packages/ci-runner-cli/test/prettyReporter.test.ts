@@ -30,6 +30,7 @@ const createFailedStepResult = (
       stderr: '',
     },
     termination: { kind: 'exited_nonzero', exitCode: 1, signal: null },
+    attemptHistory: [],
     metrics: null,
     ...overrides,
   }
@@ -53,15 +54,16 @@ const createPassedStepResult = (stdoutLines: readonly string[]): StepResult => {
       stderr: '',
     },
     termination: { kind: 'succeeded', exitCode: 0, signal: null },
+    attemptHistory: [],
     metrics: null,
   }
 }
 
-const createSkippedStepResult = (stdoutLines: readonly string[]): StepResult => {
+const createFailedAllowedStepResult = (stdoutLines: readonly string[]): StepResult => {
   return {
     id: 'build',
     name: 'Build',
-    status: 'skipped',
+    status: 'failed_allowed',
     reason: 'optional_step_failed',
     attempts: 1,
     retried: false,
@@ -75,6 +77,7 @@ const createSkippedStepResult = (stdoutLines: readonly string[]): StepResult =>
       stderr: '',
     },
     termination: { kind: 'exited_nonzero', exitCode: 1, signal: null },
+    attemptHistory: [],
     metrics: null,
   }
 }
@@ -97,6 +100,7 @@ const createTimedOutStepResult = (stdoutLines: readonly string[]): StepResult =>
       stderr: '',
     },
     termination: { kind: 'timed_out', exitCode: null, signal: null },
+    attemptHistory: [],
     metrics: null,
   }
 }
@@ -128,6 +132,10 @@ interface StepStub {
   readonly status: StepResult['status']
   /** Optional stdout content for the step (e.g. pnpm recursive output). */
   readonly stdout?: string
+  /** Marks the step as passed only after a retry. */
+  readonly flaky?: boolean
+  /** Sampled resource usage of the step. */
+  readonly resourceUsage?: StepResult['resourceUsage']
 }
 
 const createPipelineResult = (opts: { steps: readonly StepStub[] }): PipelineRunResult => {
@@ -141,8 +149,9 @@ const createPipelineResult = (opts: { steps: readonly StepStub[] }): PipelineRun
         : s.status === 'timed_out'
           ? 'command_timeout'
           : undefined,
-    attempts: 1,
-    retried: false,
+    attempts: s.flaky ? 2 : 1,
+    retried: s.flaky === true,
+    flaky: s.flaky,
     startedAt: 0,
     finishedAt: 1,
     durationMs: 1,
@@ -162,18 +171,39 @@ const createPipelineResult = (opts: { steps: readonly StepStub[] }): PipelineRun
       exitCode: s.status === 'passed' ? 0 : 1,
       signal: null,
     },
+    attemptHistory: [],
+    resourceUsage: s.resourceUsage,
     metrics: null,
   }))
 
   const passed = steps.filter((s) => s.status === 'passed').length
+  const warnings = steps.filter((s) => s.status === 'warning').length
   const failed = steps.filter((s) => s.status === 'failed').length
+  const failedAllowed = steps.filter((s) => s.status === 'failed_allowed').length
   const skipped = steps.filter((s) => s.status === 'skipped').length
   const timedOut = steps.filter((s) => s.status === 'timed_out').length
+  const flaky = steps.filter((s) => s.flaky === true).length
+  const notRun = steps.filter((s) => s.status === 'not_run').length
+  const cancelled = steps.filter((s) => s.status === 'cancelled').length
 
   return {
     steps,
-    summary: { total: steps.length, passed, failed, skipped, timedOut, durationMs: 100 },
+    summary: {
+      total: steps.length,
+      passed,
+      warnings,
+      failed,
+      failedAllowed,
+      skipped,
+      timedOut,
+      flaky,
+      notRun,
+      cancelled,
+      budgetExceeded: false,
+      durationMs: 100,
+    },
     exitCode: failed > 0 || timedOut > 0 ? 1 : 0,
+    aborted: false,
     startedAt: 0,
     finishedAt: 100,
   }
@@ -323,6 +353,38 @@ describe('PrettyReporter', () => {
     expect(output).not.toContain('lines hidden')
   })
 
+  it('points to the step log file when output is truncated', () => {
+    const quiet = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const verbose = new PrettyReporter({ verbose: true, version: '0.0.0-test' })
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${i + 1}: all good`)
+    const logFile = '/repo/.ci-runner/runs/run-1/typecheck.log'
+
+    const truncatedByReporter = captureStdout(() => {
+      quiet.onStepComplete(createFailedStepResult(lines, { logFile }))
+    })
+    const truncatedByCapture = captureStdout(() => {
+      verbose.onStepComplete(
+        createFailedStepResult(['tail of output'], {
+          logFile,
+          output: {
+            exitCode: 1,
+            signal: null,
+            stdout: 'tail of output',
+            stderr: '',
+            outputTruncated: true,
+          },
+        })
+      )
+    })
+    const complete = captureStdout(() => {
+      verbose.onStepComplete(createFailedStepResult(lines, { logFile }))
+    })
+
+    expect(truncatedByReporter).toContain(`full log: ${logFile}`)
+    expect(truncatedByCapture).toContain(`full log: ${logFile}`)
+    expect(complete).not.toContain('full log:')
+  })
+
   it('shows stdout for passed steps only in verbose mode', () => {
     const verbose = new PrettyReporter({ verbose: true, version: '0.0.0-test' })
     const quiet = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
@@ -356,17 +418,17 @@ describe('PrettyReporter', () => {
     expect(output).not.toContain('packages/pkg-0 build: Done')
   })
 
-  // -- skipped steps -----------------------------------------------------
+  // -- allowed failures --------------------------------------------------
 
-  it('summarizes long output for skipped steps', () => {
+  it('summarizes long output for optional steps that failed', () => {
     const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
     const lines = [...noiseLines(50), 'optional step output']
 
     const output = captureStdout(() => {
-      reporter.onStepComplete(createSkippedStepResult(lines))
+      reporter.onStepComplete(createFailedAllowedStepResult(lines))
     })
 
-    expect(output).toContain('skipped')
+    expect(output).toContain('✗ Build: failed, allowed (optional_step_failed, 1ms)')
     expect(output).not.toContain('packages/pkg-0 build: Done')
   })
 
@@ -455,6 +517,294 @@ describe('PrettyReporter', () => {
     expect(output).toContain('Result: ✅ PASS')
   })
 
+  it('lists allowed failures separately from skipped steps', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const result = createPipelineResult({
+      steps: [
+        { name: 'Lint', status: 'passed' },
+        { name: 'E2E', status: 'failed_allowed' },
+      ],
+    })
+
+    const output = captureStdout(() => {
+      reporter.onPipelineComplete(result)
+    })
+
+    expect(output).toContain('skipped=0 failed=0 timedOut=0 failedAllowed=1 duration=')
+    expect(output).toContain('  failed (allowed): E2E\n')
+    expect(output).not.toContain('skipped:')
+    expect(output).toContain('Result: ✅ PASS')
+  })
+
+  it('shows steps that exited with a warning exit code without failing the run', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+
+    const output = captureStdout(() => {
+      reporter.onStepComplete(
+        createFailedStepResult(['src/a.ts: 2 warnings'], {
+          status: 'warning',
+          reason: 'exit_code_warning',
+          output: { exitCode: 2, signal: null, stdout: 'src/a.ts: 2 warnings', stderr: '' },
+        })
+      )
+      reporter.onPipelineComplete(
+        createPipelineResult({
+          steps: [
+            { name: 'Build', status: 'passed' },
+            { name: 'Typecheck', status: 'warning' },
+          ],
+        })
+      )
+    })
+
+    expect(output).toContain('⚠ Typecheck warning (exit 2, 1ms)')
+    expect(output).toContain('src/a.ts: 2 warnings')
+    expect(output).toContain('timedOut=0 warnings=1 duration=')
+    expect(output).toContain('  warnings: Typecheck')
+    expect(output).toContain('Result: ✅ PASS')
+  })
+
+  it('names the violated pattern and line of a failed output assertion', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+
+    const output = captureStdout(() => {
+      reporter.onStepComplete(
+        createFailedStepResult(['(node:42) DeprecationWarning: Buffer() is deprecated'], {
+          reason: 'output_assertion_failed',
+          outputAssertionFailure: {
+            assertion: 'mustNotMatch',
+            pattern: 'DeprecationWarning',
+            line: '(node:42) DeprecationWarning: Buffer() is deprecated',
+          },
+        })
+      )
+      reporter.onStepComplete(
+        createFailedStepResult([], {
+          reason: 'output_assertion_failed',
+          outputAssertionFailure: { assertion: 'mustMatch', pattern: '\\d+ tests? passed' },
+        })
+      )
+    })
+
+    expect(output).toContain('✗ Typecheck: failed (output_assertion_failed, 1ms)')
+    expect(output).toContain(
+      '  output assertion: unexpected match for /DeprecationWarning/: (node:42) DeprecationWarning: Buffer() is deprecated\n'
+    )
+    expect(output).toContain('  output assertion: expected a match for /\\d+ tests? passed/\n')
+  })
+
+  it('names the metric and bounds of a breached threshold', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+
+    const output = captureStdout(() => {
+      reporter.onStepComplete(
+        createFailedStepResult([], {
+          reason: 'metric_threshold_exceeded',
+          metricThresholdBreach: { metric: 'warnings', value: 3, threshold: { max: 0 } },
+        })
+      )
+      reporter.onStepComplete(
+        createFailedStepResult([], {
+          reason: 'metric_threshold_exceeded',
+          metricThresholdBreach: {
+            metric: 'tests_passed',
+            value: null,
+            threshold: { min: 100, max: 500 },
+          },
+        })
+      )
+    })
+
+    expect(output).toContain('✗ Typecheck: failed (metric_threshold_exceeded, 1ms)')
+    expect(output).toContain('  metric threshold: warnings = 3 (max 0)\n')
+    expect(output).toContain(
+      '  metric threshold: tests_passed was not reported (min 100, max 500)\n'
+    )
+  })
+
+  it('shows steps that did not run because of a failed dependency', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+
+    const output = captureStdout(() => {
+      reporter.onStepComplete(
+        createFailedStepResult([], {
+          id: 'build',
+          name: 'Build',
+          status: 'not_run',
+          reason: 'dependency_failed',
+          blockedBy: 'typecheck',
+          attempts: 0,
+        })
+      )
+      reporter.onPipelineComplete(
+        createPipelineResult({
+          steps: [
+            { name: 'Typecheck', status: 'failed' },
+            { name: 'Build', status: 'not_run' },
+          ],
+        })
+      )
+    })
+
+    expect(output).toContain('ℹ Build not run (dependency_failed: typecheck)')
+    expect(output).toContain('timedOut=0 notRun=1 duration=')
+    expect(output).toContain('  not run: Build')
+  })
+
+  it('lists every attempt of a step that needed a retry', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const output = captureStdout(() => {
+      reporter.onStepComplete({
+        ...createPassedStepResult([]),
+        attempts: 2,
+        retried: true,
+        attemptHistory: [
+          {
+            attempt: 1,
+            durationMs: 3200,
+            termination: { kind: 'exited_nonzero', exitCode: 1, signal: null },
+            output: { exitCode: 1, signal: null, stdout: '', stderr: 'ECONNRESET' },
+          },
+          {
+            attempt: 2,
+            durationMs: 800,
+            termination: { kind: 'succeeded', exitCode: 0, signal: null },
+            output: { exitCode: 0, signal: null, stdout: '', stderr: '' },
+          },
+        ],
+      })
+    })
+
+    expect(output).toContain('  attempt 1 failed (exit 1, 3.2s)\n  attempt 2 passed (800ms)')
+  })
+
+  it('prefixes streamed output lines with the step name and skips the completion dump', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test', stream: true })
+    const step = { id: 'typecheck', name: 'Typecheck', command: 'tsc' }
+
+    const output = captureStdout(() => {
+      reporter.onStepOutput(step, 'stdout', 'checking src/a.ts\nchecking sr')
+      reporter.onStepOutput(step, 'stderr', 'error TS2322\r\n')
+      reporter.onStepOutput(step, 'stdout', 'c/b.ts\nunterminated')
+      reporter.onStepComplete(createFailedStepResult(['checking src/a.ts', 'error TS2322']))
+    })
+
+    expect(output).toBe(
+      [
+        '[Typecheck] checking src/a.ts',
+        '[Typecheck] error TS2322',
+        '[Typecheck] checking src/b.ts',
+        '[Typecheck] unterminated',
+        '✗ Typecheck: failed (command_failed, 1ms)',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('prints a long unterminated streamed line once it reaches the buffer limit', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test', stream: true })
+    const step = { id: 'build', name: 'Build', command: 'build' }
+    const progress = `\r${'='.repeat(1023)}`
+
+    const output = captureStdout(() => {
+      for (let index = 0; index < 65; index += 1) {
+        reporter.onStepOutput(step, 'stdout', progress)
+      }
+      reporter.onStepOutput(step, 'stdout', ' done\n')
+    })
+
+    expect(output.split('\n')).toEqual([`[Build] ${progress.repeat(65)}`, '[Build]  done', ''])
+  })
+
+  it('lists step resource usage in the verbose summary', () => {
+    const result = createPipelineResult({
+      steps: [
+        {
+          name: 'Build',
+          status: 'passed',
+          resourceUsage: { cpuUserMs: 12_340, cpuSystemMs: 870, peakRssBytes: 512 * 1024 * 1024 },
+        },
+        { name: 'Lint', status: 'passed' },
+      ],
+    })
+
+    const verbose = captureStdout(() => {
+      new PrettyReporter({ verbose: true, version: '0.0.0-test' }).onPipelineComplete(result)
+    })
+    const quiet = captureStdout(() => {
+      new PrettyReporter({ verbose: false, version: '0.0.0-test' }).onPipelineComplete(result)
+    })
+
+    expect(verbose).toContain(
+      '  resources:\n    Build: cpu 12.3s user, 870ms sys, peak RSS 512.0 MiB\n'
+    )
+    expect(verbose).not.toContain('Lint: cpu')
+    expect(quiet).not.toContain('resources:')
+  })
+
+  it('flags steps that passed only after a retry', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const result = createPipelineResult({
+      steps: [
+        { name: 'Lint', status: 'passed' },
+        { name: 'E2E', status: 'passed', flaky: true },
+      ],
+    })
+
+    const output = captureStdout(() => {
+      reporter.onStepComplete(result.steps[1] as StepResult)
+      reporter.onPipelineComplete(result)
+    })
+
+    expect(output).toContain('✓ E2E 1ms (flaky)')
+    expect(output).toContain('timedOut=0 flaky=1 duration=')
+    expect(output).toContain('  flaky: E2E')
+    expect(output).toContain('Result: ✅ PASS')
+  })
+
+  it('marks interrupted runs as cancelled in the summary', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const result = createPipelineResult({
+      steps: [
+        { name: 'Lint', status: 'passed' },
+        { name: 'Test', status: 'cancelled' },
+        { name: 'Build', status: 'cancelled' },
+      ],
+    })
+
+    const output = captureStdout(() => {
+      reporter.onPipelineComplete({ ...result, exitCode: 1, aborted: true })
+    })
+
+    expect(output).toContain('timedOut=0 cancelled=2 duration=')
+    expect(output).toContain('  cancelled: Test, Build')
+    expect(output).toContain('Result: CANCELLED')
+    expect(output).not.toContain('Result: FAIL')
+  })
+
+  it('reports an exceeded time budget in the summary', () => {
+    const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
+    const result = createPipelineResult({
+      steps: [
+        { name: 'Lint', status: 'passed' },
+        { name: 'Test', status: 'cancelled' },
+        { name: 'Build', status: 'not_run' },
+      ],
+    })
+
+    const output = captureStdout(() => {
+      reporter.onPipelineComplete({
+        ...result,
+        summary: { ...result.summary, budgetExceeded: true },
+        exitCode: 1,
+      })
+    })
+
+    expect(output).toContain('  not run: Build\n  cancelled: Test\n')
+    expect(output).toContain('  time budget exceeded after 100ms\n')
+    expect(output).toContain('Result: FAIL')
+  })
+
   it('omits failure listing when all steps pass', () => {
     const reporter = new PrettyReporter({ verbose: false, version: '0.0.0-test' })
     const result = createPipelineResult({
@@ -0,0 +1,61 @@
+import { mkdir, mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { basename, dirname, resolve } from 'node:path'
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { prepareRunLogDirectory } from '../src/logs/runLogDirectory.js'
+
+const createdDirectories: string[] = []
+
+afterEach(async () => {
+  for (const directory of createdDirectories.splice(0)) {
+    await rm(directory, { recursive: true, force: true })
+  }
+})
+
+const createWorkspace = async (runIds: readonly string[]): Promise<string> => {
+  const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-runs-'))
+  createdDirectories.push(directory)
+
+  for (const runId of runIds) {
+    await mkdir(resolve(directory, '.ci-runner', 'runs', runId), { recursive: true })
+  }
+
+  return directory
+}
+
+const listRunIds = async (directory: string): Promise<string[]> => {
+  return (await readdir(resolve(directory, '.ci-runner', 'runs'))).sort()
+}
+
+describe('prepareRunLogDirectory', () => {
+  it('removes the oldest runs so that keepRuns directories remain with the new run', async () => {
+    const directory = await createWorkspace([
+      '2026-01-01T00-00-00-000Z-1',
+      '2026-01-02T00-00-00-000Z-1',
+      '2026-01-03T00-00-00-000Z-1',
+    ])
+
+    const logDirectory = await prepareRunLogDirectory(directory, 2)
+
+    expect(dirname(logDirectory ?? '')).toBe(resolve(directory, '.ci-runner', 'runs'))
+    expect(basename(logDirectory ?? '') > '2026-01-03').toBe(true)
+    await expect(listRunIds(directory)).resolves.toEqual(['2026-01-03T00-00-00-000Z-1'])
+  })
+
+  it('removes all runs and disables logs when keepRuns is 0', async () => {
+    const directory = await createWorkspace(['2026-01-01T00-00-00-000Z-1'])
+
+    await expect(prepareRunLogDirectory(directory, 0)).resolves.toBeUndefined()
+    await expect(listRunIds(directory)).resolves.toEqual([])
+  })
+
+  it('works before the first run created the runs directory', async () => {
+    const directory = await createWorkspace([])
+
+    await expect(prepareRunLogDirectory(directory)).resolves.toContain(
+      resolve(directory, '.ci-runner', 'runs')
+    )
+  })
+})
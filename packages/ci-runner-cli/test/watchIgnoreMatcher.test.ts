@@ -10,11 +10,12 @@ describe('createWatchIgnoreMatcher', () => {
     expect(shouldIgnore('packages/ci-runner-cli/dist/config/loadConfig.d.ts')).toBe(true)
   })
 
-  it('ignores nested node_modules and vite temp paths', () => {
+  it('ignores nested node_modules, vite temp, and ci-runner cache paths', () => {
     const shouldIgnore = createWatchIgnoreMatcher()
 
     expect(shouldIgnore('packages/ci-runner-cli/node_modules/.vite-temp/config.mjs')).toBe(true)
     expect(shouldIgnore('apps/web/node_modules/react/index.js')).toBe(true)
+    expect(shouldIgnore('.ci-runner/cache/lint.json')).toBe(true)
   })
 
   it('ignores ts build info files outside ignored directories', () => {
@@ -1,17 +1,34 @@
 import { builtinModules } from 'node:module'
 import { defineConfig } from 'vite'
 
+import { formatCiRunnerConfigSchema } from './src/config/configSchema.js'
+
 export default defineConfig({
+  plugins: [
+    {
+      name: 'ci-runner-config-schema',
+      generateBundle() {
+        this.emitFile({
+          type: 'asset',
+          fileName: 'ci.config.schema.json',
+          source: formatCiRunnerConfigSchema(),
+        })
+      },
+    },
+  ],
   build: {
     target: 'node20',
     sourcemap: true,
     lib: {
-      entry: 'src/cli.ts',
+      entry: {
+        cli: 'src/cli.ts',
+        index: 'src/index.ts',
+      },
       formats: ['es'],
-      fileName: 'cli',
+      fileName: (_format, entryName) => `${entryName}.js`,
     },
     rollupOptions: {
-      external: [...builtinModules, /^node:/, /^typescript$/],
+      external: [...builtinModules, /^node:/, /^typescript$/, /^yaml$/],
     },
   },
 })
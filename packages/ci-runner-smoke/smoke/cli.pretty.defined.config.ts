@@ -0,0 +1,27 @@
+import { defineConfig } from '@number10/ci-runner-cli'
+
+export default defineConfig({
+  output: {
+    format: 'pretty',
+  },
+  steps: [
+    {
+      id: 'prepare',
+      name: 'Prepare',
+      command: 'node stubs/prepare-step.cjs',
+    },
+    {
+      id: 'unit-tests',
+      name: 'Unit Tests',
+      command: 'node stubs/unit-tests-step.cjs',
+      dependsOn: ['prepare'],
+    },
+  ],
+  targets: [
+    {
+      id: 'prepare-only',
+      name: 'Prepare only',
+      includeStepIds: ['prepare'],
+    },
+  ],
+})
@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+
+const handledSignal = process.argv[2] ?? 'SIGTERM'
+const mode = process.argv[3] ?? 'exit'
+
+process.on(handledSignal, () => {
+  if (mode === 'ignore') {
+    console.log(`ignoring ${handledSignal}`)
+    return
+  }
+
+  console.log(`received ${handledSignal}, flushing report`)
+  process.exit(0)
+})
+
+console.log('waiting for signal')
+setTimeout(() => process.exit(0), 10000)
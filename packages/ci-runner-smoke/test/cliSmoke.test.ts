@@ -1,4 +1,4 @@
-import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
 import { spawn, type ChildProcess } from 'node:child_process'
 import { tmpdir } from 'node:os'
 import { resolve } from 'node:path'
@@ -11,6 +11,10 @@ interface SmokeConfigStep {
   readonly command: string
   readonly optional?: boolean
   readonly enabled?: boolean
+  readonly timeoutMs?: number
+  readonly idleTimeoutMs?: number
+  readonly killSignal?: string
+  readonly killGracePeriodMs?: number
   readonly when?: {
     readonly env?: Readonly<Record<string, string>>
   }
@@ -33,6 +37,7 @@ afterEach(async () => {
   for (const directory of createdDirectories.splice(0)) {
     await rm(directory, { recursive: true, force: true })
   }
+  await rm(resolve(smokeRoot, '.ci-runner'), { recursive: true, force: true })
 })
 
 describe('ci-runner-cli smoke', () => {
@@ -68,6 +73,37 @@ describe('ci-runner-cli smoke', () => {
     )
   })
 
+  it('streams step output live with a step name prefix', async () => {
+    const configFilePath = await writeSmokeConfig([
+      {
+        id: 'failing-check',
+        name: 'Failing Check',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'optional-fail-step.cjs'))}`,
+      },
+    ])
+
+    const result = await runCli([
+      '--config',
+      configFilePath,
+      '--cwd',
+      smokeRoot,
+      '--format',
+      'pretty',
+      '--stream',
+    ])
+    const stdout = normalizePrettyOutput(result.stdout)
+
+    expect(result.exitCode).toBe(1)
+    expect(stdout).toContain(
+      [
+        '-> Failing Check',
+        '[Failing Check] optional step failed intentionally',
+        '✗ Failing Check: failed (command_failed, <duration>)',
+      ].join('\n')
+    )
+    expect(stdout).not.toContain('stderr:')
+  })
+
   it('prints detailed output on pretty failure', async () => {
     const configFilePath = await writeSmokeConfig([
       {
@@ -152,6 +188,34 @@ describe('ci-runner-cli smoke', () => {
     })
   })
 
+  it('writes the complete step output to a per-run log file', async () => {
+    const configFilePath = await writeSmokeConfig([
+      {
+        id: 'failing-check',
+        name: 'Failing Check',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'optional-fail-step.cjs'))}`,
+      },
+    ])
+
+    const result = await runCli([
+      '--config',
+      configFilePath,
+      '--cwd',
+      smokeRoot,
+      '--format',
+      'json',
+    ])
+    const parsed = JSON.parse(result.stdout) as {
+      readonly steps: ReadonlyArray<{ readonly logFile?: string }>
+    }
+    const logFile = parsed.steps[0]?.logFile ?? ''
+
+    expect(result.exitCode).toBe(1)
+    expect(logFile).toMatch(/[/\\]\.ci-runner[/\\]runs[/\\][^/\\]+[/\\]failing-check\.log$/u)
+    expect(logFile.startsWith(smokeRoot)).toBe(true)
+    await expect(readFile(logFile, 'utf8')).resolves.toBe('optional step failed intentionally\n')
+  })
+
   it('stops after first hard failure in fail-fast mode', async () => {
     const configFilePath = await writeSmokeConfig([
       {
@@ -178,18 +242,107 @@ describe('ci-runner-cli smoke', () => {
     const parsed = JSON.parse(result.stdout) as {
       readonly summary: {
         readonly total: number
+        readonly notRun: number
       }
       readonly steps: ReadonlyArray<{
         readonly id: string
+        readonly status: string
+        readonly reason?: string
+        readonly blockedBy?: string
       }>
       readonly exitCode: number
     }
 
     expect(result.exitCode).toBe(1)
     expect(parsed.exitCode).toBe(1)
-    expect(parsed.summary.total).toBe(1)
-    expect(parsed.steps).toHaveLength(1)
+    expect(parsed.summary).toMatchObject({ total: 2, notRun: 1 })
+    expect(parsed.steps).toHaveLength(2)
     expect(parsed.steps[0]?.id).toBe('hard-fail')
+    expect(parsed.steps[1]).toMatchObject({
+      id: 'after-failure',
+      status: 'not_run',
+      reason: 'fail_fast',
+      blockedBy: 'hard-fail',
+    })
+  })
+
+  it('stops a step that prints nothing for longer than its idle timeout', async () => {
+    const configFilePath = await writeSmokeConfig([
+      {
+        id: 'hung-watcher',
+        name: 'Hung Watcher',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'slow-step.cjs'))} 10000`,
+        idleTimeoutMs: 300,
+      },
+    ])
+
+    const startedAt = Date.now()
+    const result = await runCli([
+      '--config',
+      configFilePath,
+      '--cwd',
+      smokeRoot,
+      '--format',
+      'json',
+    ])
+    const parsed = JSON.parse(result.stdout) as {
+      readonly steps: ReadonlyArray<{
+        readonly status: string
+        readonly reason?: string
+        readonly termination: { readonly kind: string }
+      }>
+    }
+
+    expect(result.exitCode).toBe(1)
+    expect(Date.now() - startedAt).toBeLessThan(8000)
+    expect(parsed.steps[0]).toMatchObject({
+      status: 'timed_out',
+      reason: 'command_idle_timeout',
+      termination: { kind: 'idle_timeout' },
+    })
+  })
+
+  it('stops timed-out steps with the configured kill signal and grace period', async () => {
+    const signalStep = `node ${JSON.stringify(resolve(stubsRoot, 'signal-step.cjs'))}`
+    const configFilePath = await writeSmokeConfig([
+      {
+        id: 'reporter',
+        name: 'Reporter',
+        command: `${signalStep} SIGINT exit`,
+        timeoutMs: 1000,
+        killSignal: 'SIGINT',
+      },
+      {
+        id: 'stubborn',
+        name: 'Stubborn',
+        command: `${signalStep} SIGTERM ignore`,
+        timeoutMs: 1000,
+        killGracePeriodMs: 300,
+      },
+    ])
+
+    const startedAt = Date.now()
+    const result = await runCli([
+      '--config',
+      configFilePath,
+      '--cwd',
+      smokeRoot,
+      '--format',
+      'json',
+    ])
+    const parsed = JSON.parse(result.stdout) as {
+      readonly steps: ReadonlyArray<{
+        readonly output: { readonly stdout: string }
+        readonly termination: { readonly kind: string; readonly killSignal?: string }
+      }>
+    }
+
+    expect(result.exitCode).toBe(1)
+    expect(Date.now() - startedAt).toBeLessThan(8000)
+    expect(parsed.steps[0]?.termination).toMatchObject({ kind: 'timed_out', killSignal: 'SIGINT' })
+    expect(parsed.steps[0]?.output.stdout).toContain('received SIGINT, flushing report')
+    expect(parsed.steps[1]?.termination).toMatchObject({ kind: 'timed_out', killSignal: 'SIGKILL' })
+    expect(parsed.steps[1]?.output.stdout).toContain('ignoring SIGTERM')
   })
 
   it('shows successful step output in pretty mode when verbose is enabled', async () => {
@@ -235,7 +388,64 @@ describe('ci-runner-cli smoke', () => {
     expect(stdout).toContain('Summary: total=2 passed=2 skipped=0 failed=0 timedOut=0')
   })
 
-  it('prints compact hint for optional skipped missing script', async () => {
+  it('runs a ts config declared with defineConfig from the package index', async () => {
+    const definedConfigPath = resolve(smokeRoot, 'smoke', 'cli.pretty.defined.config.ts')
+
+    const result = await runCli([
+      '--config',
+      definedConfigPath,
+      '--cwd',
+      smokeRoot,
+      '--target',
+      'prepare-only',
+    ])
+    const stdout = normalizePrettyOutput(result.stdout)
+
+    expect(result.exitCode).toBe(0)
+    expect(stdout).toContain('Result: ✅ PASS')
+    expect(stdout).toContain('Summary: total=1 passed=1 skipped=0 failed=0 timedOut=0')
+  })
+
+  it('runs a ts config that imports json with an import attribute', async () => {
+    const directory = await mkdtemp(resolve(tmpdir(), 'ci-runner-smoke-json-attribute-'))
+    createdDirectories.push(directory)
+    await writeFile(
+      resolve(directory, 'steps.json'),
+      JSON.stringify([{ id: 'prepare', name: 'Prepare', command: 'node -e "0"' }]),
+      'utf8'
+    )
+    await writeFile(
+      resolve(directory, 'ci.config.ts'),
+      [
+        'import steps from "./steps.json" with { type: "json" }',
+        'const copy = await import("./steps.json", { with: { type: "json" } })',
+        'export { default as extraSteps } from "./steps.json" with { type: "json" }',
+        'export default { steps: [...steps, { ...copy.default[0], id: "prepare-again" }] }',
+      ].join('\n'),
+      'utf8'
+    )
+
+    const result = await runCli(['--cwd', directory, '--no-logs'])
+    const stdout = normalizePrettyOutput(result.stdout)
+
+    expect(result.stderr).toBe('')
+    expect(result.exitCode).toBe(0)
+    expect(stdout).toContain('Summary: total=2 passed=2 skipped=0 failed=0 timedOut=0')
+  })
+
+  it('prints the config schema that ships in the package', async () => {
+    const result = await runCli(['schema'])
+    const shippedSchema = await readFile(
+      resolve(workspaceRoot, 'packages/ci-runner-cli/dist/ci.config.schema.json'),
+      'utf8'
+    )
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toBe(shippedSchema)
+    expect(JSON.parse(result.stdout)).toMatchObject({ required: ['steps'] })
+  })
+
+  it('prints compact hint for optional failed missing script', async () => {
     const configFilePath = await writeSmokeConfig([
       {
         id: 'e2e-tests',
@@ -256,7 +466,7 @@ describe('ci-runner-cli smoke', () => {
     const stdout = normalizePrettyOutput(result.stdout)
 
     expect(result.exitCode).toBe(0)
-    expect(stdout).toContain('ℹ E2E Tests skipped (optional_step_failed, <duration>)')
+    expect(stdout).toContain('✗ E2E Tests: failed, allowed (optional_step_failed, <duration>)')
     expect(stdout).toContain('note: missing script "test:e2e"')
     expect(stdout).not.toContain('stdout:')
   })
@@ -305,6 +515,59 @@ describe('ci-runner-cli smoke', () => {
     expect(stdout).toContain('Summary: total=1 passed=1 skipped=0 failed=0 timedOut=0')
   })
 
+  it('prints partial results and exits with 130 when interrupted by SIGINT', async () => {
+    const configFilePath = await writeSmokeConfig([
+      {
+        id: 'prepare',
+        name: 'Prepare',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'prepare-step.cjs'))}`,
+      },
+      {
+        id: 'slow',
+        name: 'Slow',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'slow-step.cjs'))} 30000`,
+      },
+      {
+        id: 'after',
+        name: 'After',
+        command: `node ${JSON.stringify(resolve(stubsRoot, 'prepare-step.cjs'))}`,
+      },
+    ])
+
+    const child = spawn(
+      process.execPath,
+      [cliEntryPath, '--config', configFilePath, '--cwd', smokeRoot, '--format', 'pretty'],
+      {
+        cwd: workspaceRoot,
+        env: { ...process.env },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      }
+    )
+
+    let stdout = ''
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString('utf8')
+    })
+
+    try {
+      await waitForCondition(() => stripAnsi(stdout).includes('-> Slow'), 8000)
+      child.kill('SIGINT')
+      const exitCode = await waitForChildExit(child)
+      const plainStdout = stripAnsi(stdout)
+
+      expect(exitCode).toBe(130)
+      expect(plainStdout).toContain('ℹ Slow cancelled (pipeline_cancelled')
+      expect(plainStdout).toContain('ℹ After cancelled (pipeline_cancelled')
+      expect(plainStdout).toContain('passed=1 skipped=0 failed=0 timedOut=0 cancelled=2')
+      expect(plainStdout).toContain('Result: CANCELLED')
+    } finally {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL')
+        await waitForChildExit(child)
+      }
+    }
+  }, 20000)
+
   it('re-runs once after a file change in watch mode and exits cleanly', async () => {
     const watchDirectory = await mkdtemp(resolve(tmpdir(), 'ci-runner-cli-watch-'))
     createdDirectories.push(watchDirectory)
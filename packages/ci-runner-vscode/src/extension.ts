@@ -70,6 +70,7 @@ type TreeNode = TargetNode | ActionNode | MessageNode
 const CONFIG_SECTION = 'ciRunner'
 const DEFAULT_CONFIG_PATH = 'defaultConfigPath'
 const DEFAULT_RUN_PROFILE = 'defaultRunProfile'
+const CONFIG_FILE_GLOB = '**/ci.config.{json,ts,yaml,yml}'
 const ANSI_ESCAPE_PATTERN = new RegExp(String.raw`\u001B\[[0-?]*[ -/]*[@-~]`, 'gu')
 const FULL_PIPELINE_LABEL = 'Full CI'
 
@@ -87,7 +88,7 @@ class CiRunnerViewModel implements vscode.TreeDataProvider<TreeNode>, vscode.Dis
   public readonly onDidChangeTreeData = this.emitter.event
 
   public constructor() {
-    const configWatcher = vscode.workspace.createFileSystemWatcher('**/ci.config.{json,ts}')
+    const configWatcher = vscode.workspace.createFileSystemWatcher(CONFIG_FILE_GLOB)
     this.disposables.push(
       configWatcher,
       configWatcher.onDidCreate(() => {
@@ -172,7 +173,7 @@ class CiRunnerViewModel implements vscode.TreeDataProvider<TreeNode>, vscode.Dis
         return [
           {
             type: 'message',
-            label: 'No ci.config.json or ci.config.ts found.',
+            label: 'No ci.config.json, ci.config.ts or ci.config.yaml found.',
             description: 'Rename your config or set ciRunner.defaultConfigPath.',
           },
           {
@@ -588,7 +589,7 @@ const detectConfigs = async (): Promise<readonly ConfigEntry[]> => {
     }
 
     const discoveredUris = await vscode.workspace.findFiles(
-      new vscode.RelativePattern(workspaceFolder, '**/ci.config.{json,ts}'),
+      new vscode.RelativePattern(workspaceFolder, CONFIG_FILE_GLOB),
       new vscode.RelativePattern(
         workspaceFolder,
         '**/{node_modules,dist,out,build,coverage,.git}/**'
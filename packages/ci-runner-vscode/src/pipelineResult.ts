@@ -6,12 +6,24 @@ export interface PipelineSummary {
   readonly total: number
   /** Number of passed steps. */
   readonly passed: number
+  /** Number of steps that ended with a warning exit code, when reported by the CLI. */
+  readonly warnings?: number
   /** Number of failed steps. */
   readonly failed: number
+  /** Number of optional steps that failed without failing the run, when reported by the CLI. */
+  readonly failedAllowed?: number
   /** Number of skipped steps. */
   readonly skipped: number
   /** Number of timed out steps. */
   readonly timedOut: number
+  /** Number of steps that passed only after a retry, when reported by the CLI. */
+  readonly flaky?: number
+  /** Number of steps not run, when reported by the CLI. */
+  readonly notRun?: number
+  /** Number of cancelled steps, when reported by the CLI. */
+  readonly cancelled?: number
+  /** True when the run exceeded its time budget, when reported by the CLI. */
+  readonly budgetExceeded?: boolean
   /** Total run duration in milliseconds. */
   readonly durationMs: number
 }
@@ -23,7 +35,15 @@ export interface PipelineStepResult {
   /** Display label of the step. */
   readonly name: string
   /** Final status of the step execution. */
-  readonly status: 'passed' | 'failed' | 'skipped' | 'timed_out'
+  readonly status:
+    | 'passed'
+    | 'warning'
+    | 'failed'
+    | 'failed_allowed'
+    | 'skipped'
+    | 'timed_out'
+    | 'not_run'
+    | 'cancelled'
   /** Optional non-success reason. */
   readonly reason?: string
   /** Duration in milliseconds for the final step attempt. */
@@ -106,9 +126,13 @@ const parseStep = (value: unknown): PipelineStepResult | null => {
   const status = value.status
   if (
     status !== 'passed' &&
+    status !== 'warning' &&
     status !== 'failed' &&
+    status !== 'failed_allowed' &&
     status !== 'skipped' &&
-    status !== 'timed_out'
+    status !== 'timed_out' &&
+    status !== 'not_run' &&
+    status !== 'cancelled'
   ) {
     return null
   }
@@ -135,16 +159,30 @@ const parseSummary = (value: Readonly<Record<string, unknown>>): PipelineSummary
   const total = parseNumber(value.total)
   const passed = parseNumber(value.passed)
   const failed = parseNumber(value.failed)
+  const failedAllowed =
+    value.failedAllowed === undefined ? undefined : parseNumber(value.failedAllowed)
   const skipped = parseNumber(value.skipped)
   const timedOut = parseNumber(value.timedOut)
+  const warnings = value.warnings === undefined ? undefined : parseNumber(value.warnings)
+  const flaky = value.flaky === undefined ? undefined : parseNumber(value.flaky)
+  const notRun = value.notRun === undefined ? undefined : parseNumber(value.notRun)
+  const cancelled = value.cancelled === undefined ? undefined : parseNumber(value.cancelled)
+  const budgetExceeded =
+    value.budgetExceeded === undefined ? undefined : parseBoolean(value.budgetExceeded)
   const durationMs = parseNumber(value.durationMs)
 
   if (
     total === null ||
     passed === null ||
     failed === null ||
+    failedAllowed === null ||
     skipped === null ||
     timedOut === null ||
+    warnings === null ||
+    flaky === null ||
+    notRun === null ||
+    cancelled === null ||
+    budgetExceeded === null ||
     durationMs === null
   ) {
     return null
@@ -153,9 +191,15 @@ const parseSummary = (value: Readonly<Record<string, unknown>>): PipelineSummary
   return {
     total,
     passed,
+    warnings,
     failed,
+    failedAllowed,
     skipped,
     timedOut,
+    flaky,
+    notRun,
+    cancelled,
+    budgetExceeded,
     durationMs,
   }
 }
@@ -168,6 +212,10 @@ const parseNumber = (value: unknown): number | null => {
   return value
 }
 
+const parseBoolean = (value: unknown): boolean | null => {
+  return typeof value === 'boolean' ? value : null
+}
+
 const isRecord = (value: unknown): value is Readonly<Record<string, unknown>> => {
   return typeof value === 'object' && value !== null
 }